@@ -0,0 +1,37 @@
+package com.foom.app;
+
+import androidx.annotation.NonNull;
+
+import com.facebook.react.ReactPackage;
+import com.facebook.react.bridge.NativeModule;
+import com.facebook.react.bridge.ReactApplicationContext;
+import com.facebook.react.uimanager.ViewManager;
+import com.foom.app.apps.InstalledAppsModule;
+import com.foom.app.blocker.AppBlockerModule;
+import com.foom.app.usage.UsageEventsModule;
+
+import java.util.ArrayList;
+import java.util.Collections;
+import java.util.List;
+
+/**
+ * Native modules that ship with the FOOM app itself (not autolinked)
+ */
+public class FoomPackage implements ReactPackage {
+
+  @NonNull
+  @Override
+  public List<NativeModule> createNativeModules(@NonNull ReactApplicationContext reactContext) {
+    List<NativeModule> modules = new ArrayList<>();
+    modules.add(new UsageEventsModule(reactContext));
+    modules.add(new AppBlockerModule(reactContext));
+    modules.add(new InstalledAppsModule(reactContext));
+    return modules;
+  }
+
+  @NonNull
+  @Override
+  public List<ViewManager> createViewManagers(@NonNull ReactApplicationContext reactContext) {
+    return Collections.emptyList();
+  }
+}
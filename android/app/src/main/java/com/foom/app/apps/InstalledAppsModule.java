@@ -0,0 +1,130 @@
+package com.foom.app.apps;
+
+import android.content.Context;
+import android.content.Intent;
+import android.content.pm.ApplicationInfo;
+import android.content.pm.PackageManager;
+import android.content.pm.ResolveInfo;
+import android.graphics.Bitmap;
+import android.graphics.Canvas;
+import android.graphics.drawable.BitmapDrawable;
+import android.graphics.drawable.Drawable;
+import android.os.Build;
+import android.util.Base64;
+
+import androidx.annotation.NonNull;
+
+import com.facebook.react.bridge.Arguments;
+import com.facebook.react.bridge.Promise;
+import com.facebook.react.bridge.ReactApplicationContext;
+import com.facebook.react.bridge.ReactContextBaseJavaModule;
+import com.facebook.react.bridge.ReactMethod;
+import com.facebook.react.bridge.WritableArray;
+import com.facebook.react.bridge.WritableMap;
+
+import java.io.ByteArrayOutputStream;
+import java.util.HashSet;
+import java.util.List;
+import java.util.Set;
+
+/**
+ * Lists the apps that show up in the launcher, with their labels, icons
+ * and the category the developer declared (Android O+). Choosing a FOOM
+ * category happens in JS.
+ */
+public class InstalledAppsModule extends ReactContextBaseJavaModule {
+  public static final String NAME = "FoomInstalledApps";
+  private static final int ICON_SIZE_PX = 96;
+
+  public InstalledAppsModule(ReactApplicationContext context) {
+    super(context);
+  }
+
+  @NonNull
+  @Override
+  public String getName() {
+    return NAME;
+  }
+
+  @ReactMethod
+  public void getInstalledApps(boolean includeIcons, Promise promise) {
+    try {
+      Context context = getReactApplicationContext();
+      PackageManager packageManager = context.getPackageManager();
+      Intent launcher = new Intent(Intent.ACTION_MAIN).addCategory(Intent.CATEGORY_LAUNCHER);
+      List<ResolveInfo> activities = packageManager.queryIntentActivities(launcher, 0);
+
+      Set<String> seen = new HashSet<>();
+      WritableArray result = Arguments.createArray();
+
+      for (ResolveInfo info : activities) {
+        String packageName = info.activityInfo.packageName;
+        if (packageName.equals(context.getPackageName()) || !seen.add(packageName)) {
+          continue;
+        }
+
+        ApplicationInfo appInfo = info.activityInfo.applicationInfo;
+        WritableMap app = Arguments.createMap();
+        app.putString("packageName", packageName);
+        app.putString("appName", packageManager.getApplicationLabel(appInfo).toString());
+        app.putString("systemCategory", mapCategory(appInfo));
+        app.putBoolean("isSystemApp", (appInfo.flags & ApplicationInfo.FLAG_SYSTEM) != 0);
+        if (includeIcons) {
+          app.putString("icon", encodeIcon(packageManager.getApplicationIcon(appInfo)));
+        }
+        result.pushMap(app);
+      }
+
+      promise.resolve(result);
+    } catch (Exception error) {
+      promise.reject("E_INSTALLED_APPS", error.getMessage(), error);
+    }
+  }
+
+  private static String mapCategory(ApplicationInfo appInfo) {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.O) {
+      return null;
+    }
+
+    switch (appInfo.category) {
+      case ApplicationInfo.CATEGORY_GAME:
+        return "game";
+      case ApplicationInfo.CATEGORY_AUDIO:
+        return "audio";
+      case ApplicationInfo.CATEGORY_VIDEO:
+        return "video";
+      case ApplicationInfo.CATEGORY_IMAGE:
+        return "image";
+      case ApplicationInfo.CATEGORY_SOCIAL:
+        return "social";
+      case ApplicationInfo.CATEGORY_NEWS:
+        return "news";
+      case ApplicationInfo.CATEGORY_MAPS:
+        return "maps";
+      case ApplicationInfo.CATEGORY_PRODUCTIVITY:
+        return "productivity";
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Render an icon to a small PNG data URI that an RN Image can show
+   */
+  private static String encodeIcon(Drawable drawable) {
+    Bitmap bitmap;
+    if (drawable instanceof BitmapDrawable && ((BitmapDrawable) drawable).getBitmap() != null) {
+      bitmap = Bitmap.createScaledBitmap(((BitmapDrawable) drawable).getBitmap(), ICON_SIZE_PX, ICON_SIZE_PX, true);
+    } else {
+      // Adaptive and vector icons have to be drawn
+      bitmap = Bitmap.createBitmap(ICON_SIZE_PX, ICON_SIZE_PX, Bitmap.Config.ARGB_8888);
+      Canvas canvas = new Canvas(bitmap);
+      drawable.setBounds(0, 0, ICON_SIZE_PX, ICON_SIZE_PX);
+      drawable.draw(canvas);
+    }
+
+    ByteArrayOutputStream output = new ByteArrayOutputStream();
+    bitmap.compress(Bitmap.CompressFormat.PNG, 100, output);
+    return "data:image/png;base64," + Base64.encodeToString(output.toByteArray(), Base64.NO_WRAP);
+  }
+}
@@ -0,0 +1,134 @@
+package com.foom.app.blocker;
+
+import android.content.Context;
+import android.content.Intent;
+import android.content.pm.ResolveInfo;
+import android.net.Uri;
+import android.os.Build;
+import android.provider.Settings;
+
+import androidx.annotation.NonNull;
+
+import com.facebook.react.bridge.Arguments;
+import com.facebook.react.bridge.Promise;
+import com.facebook.react.bridge.ReactApplicationContext;
+import com.facebook.react.bridge.ReactContextBaseJavaModule;
+import com.facebook.react.bridge.ReactMethod;
+import com.facebook.react.bridge.ReadableArray;
+import com.facebook.react.bridge.ReadableMap;
+import com.facebook.react.bridge.WritableArray;
+
+/**
+ * Setup checks for the blocker and the commands JS uses to show or hide
+ * the shield. Foreground changes flow the other way, via ForegroundTaskService.
+ */
+public class AppBlockerModule extends ReactContextBaseJavaModule {
+  public static final String NAME = "FoomAppBlocker";
+
+  public AppBlockerModule(ReactApplicationContext context) {
+    super(context);
+  }
+
+  @NonNull
+  @Override
+  public String getName() {
+    return NAME;
+  }
+
+  @ReactMethod
+  public void isServiceEnabled(Promise promise) {
+    promise.resolve(ForegroundAppService.isEnabled(getReactApplicationContext()));
+  }
+
+  @ReactMethod
+  public void canDrawOverlays(Promise promise) {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.M) {
+      promise.resolve(true);
+      return;
+    }
+    promise.resolve(Settings.canDrawOverlays(getReactApplicationContext()));
+  }
+
+  @ReactMethod
+  public void openAccessibilitySettings(Promise promise) {
+    startSettings(new Intent(Settings.ACTION_ACCESSIBILITY_SETTINGS), promise);
+  }
+
+  @ReactMethod
+  public void openOverlaySettings(Promise promise) {
+    Context context = getReactApplicationContext();
+    Intent intent = new Intent(
+        Settings.ACTION_MANAGE_OVERLAY_PERMISSION,
+        Uri.parse("package:" + context.getPackageName()));
+    startSettings(intent, promise);
+  }
+
+  /**
+   * Packages that must never be shielded: FOOM itself and the home screens
+   * the shield sends the user back to
+   */
+  @ReactMethod
+  public void getProtectedPackages(Promise promise) {
+    Context context = getReactApplicationContext();
+    WritableArray packages = Arguments.createArray();
+    packages.pushString(context.getPackageName());
+
+    Intent home = new Intent(Intent.ACTION_MAIN).addCategory(Intent.CATEGORY_HOME);
+    for (ResolveInfo info : context.getPackageManager().queryIntentActivities(home, 0)) {
+      packages.pushString(info.activityInfo.packageName);
+    }
+    promise.resolve(packages);
+  }
+
+  @ReactMethod
+  public void showShield(ReadableMap options, Promise promise) {
+    try {
+      Context context = getReactApplicationContext();
+      Intent intent = new Intent(context, ShieldActivity.class);
+      intent.addFlags(Intent.FLAG_ACTIVITY_NEW_TASK | Intent.FLAG_ACTIVITY_SINGLE_TOP);
+      intent.putExtra(ShieldActivity.EXTRA_PACKAGE_NAME, getString(options, "packageName"));
+      intent.putExtra(ShieldActivity.EXTRA_TITLE, getString(options, "title"));
+      intent.putExtra(ShieldActivity.EXTRA_MESSAGE, getString(options, "message"));
+      intent.putExtra(ShieldActivity.EXTRA_DETAIL, getString(options, "detail"));
+      intent.putExtra(ShieldActivity.EXTRA_BUTTON_LABEL, getString(options, "buttonLabel"));
+
+      if (options.hasKey("actions") && !options.isNull("actions")) {
+        ReadableArray actions = options.getArray("actions");
+        String[] actionIds = new String[actions.size()];
+        String[] actionLabels = new String[actions.size()];
+        for (int i = 0; i < actions.size(); i++) {
+          ReadableMap action = actions.getMap(i);
+          actionIds[i] = getString(action, "id");
+          actionLabels[i] = getString(action, "label");
+        }
+        intent.putExtra(ShieldActivity.EXTRA_ACTION_IDS, actionIds);
+        intent.putExtra(ShieldActivity.EXTRA_ACTION_LABELS, actionLabels);
+      }
+
+      context.startActivity(intent);
+      promise.resolve(true);
+    } catch (Exception error) {
+      promise.reject("E_SHOW_SHIELD", error.getMessage(), error);
+    }
+  }
+
+  @ReactMethod
+  public void hideShield(Promise promise) {
+    ShieldActivity.dismiss();
+    promise.resolve(true);
+  }
+
+  private void startSettings(Intent intent, Promise promise) {
+    try {
+      intent.addFlags(Intent.FLAG_ACTIVITY_NEW_TASK);
+      getReactApplicationContext().startActivity(intent);
+      promise.resolve(true);
+    } catch (Exception error) {
+      promise.reject("E_OPEN_SETTINGS", error.getMessage(), error);
+    }
+  }
+
+  private static String getString(ReadableMap map, String key) {
+    return map.hasKey(key) && !map.isNull(key) ? map.getString(key) : null;
+  }
+}
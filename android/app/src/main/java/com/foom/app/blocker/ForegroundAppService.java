@@ -0,0 +1,78 @@
+package com.foom.app.blocker;
+
+import android.accessibilityservice.AccessibilityService;
+import android.content.ComponentName;
+import android.content.Context;
+import android.content.Intent;
+import android.provider.Settings;
+import android.text.TextUtils;
+import android.util.Log;
+import android.view.accessibility.AccessibilityEvent;
+
+import com.facebook.react.HeadlessJsTaskService;
+
+/**
+ * Watches window changes and reports the package that came to the
+ * foreground. It makes no blocking decisions; those happen in JS, which
+ * asks AppBlockerModule to show the shield when needed.
+ */
+public class ForegroundAppService extends AccessibilityService {
+  private static final String TAG = "FoomForegroundApp";
+
+  private String lastPackageName;
+
+  @Override
+  public void onAccessibilityEvent(AccessibilityEvent event) {
+    if (event.getEventType() != AccessibilityEvent.TYPE_WINDOW_STATE_CHANGED
+        || event.getPackageName() == null) {
+      return;
+    }
+
+    String packageName = event.getPackageName().toString();
+    if (packageName.equals(lastPackageName)) {
+      return;
+    }
+    // Our own windows (including the shield) are reported too, so JS knows
+    // the previous app is no longer in front
+    lastPackageName = packageName;
+
+    Intent intent = new Intent(this, ForegroundTaskService.class);
+    intent.putExtra("packageName", packageName);
+    intent.putExtra("timestamp", (double) System.currentTimeMillis());
+
+    try {
+      startService(intent);
+      HeadlessJsTaskService.acquireWakeLockNow(this);
+    } catch (IllegalStateException error) {
+      Log.w(TAG, "Could not report foreground change", error);
+    }
+  }
+
+  @Override
+  public void onInterrupt() {
+    // Nothing to cancel; events are fire-and-forget
+  }
+
+  /**
+   * Whether the user has turned this service on in Accessibility settings
+   */
+  public static boolean isEnabled(Context context) {
+    String enabledServices = Settings.Secure.getString(
+        context.getContentResolver(), Settings.Secure.ENABLED_ACCESSIBILITY_SERVICES);
+    if (TextUtils.isEmpty(enabledServices)) {
+      return false;
+    }
+
+    ComponentName component = new ComponentName(context, ForegroundAppService.class);
+    TextUtils.SimpleStringSplitter splitter = new TextUtils.SimpleStringSplitter(':');
+    splitter.setString(enabledServices);
+
+    for (String service : splitter) {
+      ComponentName enabled = ComponentName.unflattenFromString(service);
+      if (component.equals(enabled)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,36 @@
+package com.foom.app.blocker;
+
+import android.content.Intent;
+import android.os.Bundle;
+
+import androidx.annotation.Nullable;
+
+import com.facebook.react.HeadlessJsTaskService;
+import com.facebook.react.bridge.Arguments;
+import com.facebook.react.jstasks.HeadlessJsTaskConfig;
+
+/**
+ * Delivers blocker events to JS headless tasks, whether or not the app UI
+ * is running. Foreground changes go to TASK_NAME unless the intent names
+ * another task (the shield uses SHIELD_ACTION_TASK_NAME).
+ */
+public class ForegroundTaskService extends HeadlessJsTaskService {
+  public static final String TASK_NAME = "FoomForegroundChange";
+  public static final String SHIELD_ACTION_TASK_NAME = "FoomShieldAction";
+  public static final String EXTRA_TASK_NAME = "taskName";
+  private static final long TASK_TIMEOUT_MS = 5000;
+
+  @Nullable
+  @Override
+  protected HeadlessJsTaskConfig getTaskConfig(Intent intent) {
+    Bundle extras = intent.getExtras();
+    if (extras == null) {
+      return null;
+    }
+
+    String taskName = extras.getString(EXTRA_TASK_NAME, TASK_NAME);
+    extras.remove(EXTRA_TASK_NAME);
+
+    return new HeadlessJsTaskConfig(taskName, Arguments.fromBundle(extras), TASK_TIMEOUT_MS, true);
+  }
+}
@@ -0,0 +1,152 @@
+package com.foom.app.blocker;
+
+import android.app.Activity;
+import android.content.Intent;
+import android.graphics.Color;
+import android.graphics.Typeface;
+import android.os.Bundle;
+import android.view.Gravity;
+import android.widget.Button;
+import android.widget.LinearLayout;
+import android.widget.TextView;
+
+import java.lang.ref.WeakReference;
+
+/**
+ * Full-screen interstitial shown over a blocked app. Its text and extra
+ * buttons come from JS; pressing an extra button hands its id back to JS,
+ * which closes the shield if the action succeeds.
+ */
+public class ShieldActivity extends Activity {
+  public static final String EXTRA_PACKAGE_NAME = "packageName";
+  public static final String EXTRA_TITLE = "title";
+  public static final String EXTRA_MESSAGE = "message";
+  public static final String EXTRA_DETAIL = "detail";
+  public static final String EXTRA_BUTTON_LABEL = "buttonLabel";
+  public static final String EXTRA_ACTION_IDS = "actionIds";
+  public static final String EXTRA_ACTION_LABELS = "actionLabels";
+
+  private static WeakReference<ShieldActivity> current = new WeakReference<>(null);
+
+  private TextView titleView;
+  private TextView messageView;
+  private TextView detailView;
+  private LinearLayout actionsView;
+  private Button backButton;
+
+  @Override
+  protected void onCreate(Bundle savedInstanceState) {
+    super.onCreate(savedInstanceState);
+    current = new WeakReference<>(this);
+
+    LinearLayout layout = new LinearLayout(this);
+    layout.setOrientation(LinearLayout.VERTICAL);
+    layout.setGravity(Gravity.CENTER);
+    layout.setPadding(64, 64, 64, 64);
+    layout.setBackgroundColor(Color.parseColor("#6200EE"));
+
+    titleView = createText(26, Typeface.BOLD);
+    messageView = createText(16, Typeface.NORMAL);
+    detailView = createText(14, Typeface.NORMAL);
+    detailView.setAlpha(0.8f);
+
+    actionsView = new LinearLayout(this);
+    actionsView.setOrientation(LinearLayout.VERTICAL);
+
+    backButton = new Button(this);
+    backButton.setOnClickListener(view -> leave());
+
+    layout.addView(titleView);
+    layout.addView(messageView);
+    layout.addView(detailView);
+    layout.addView(actionsView);
+    layout.addView(backButton);
+    setContentView(layout);
+
+    bind(getIntent());
+  }
+
+  @Override
+  protected void onNewIntent(Intent intent) {
+    super.onNewIntent(intent);
+    setIntent(intent);
+    bind(intent);
+  }
+
+  @Override
+  public void onBackPressed() {
+    leave();
+  }
+
+  @Override
+  protected void onDestroy() {
+    if (current.get() == this) {
+      current.clear();
+    }
+    super.onDestroy();
+  }
+
+  /**
+   * Close the shield if it is showing, e.g. after the app was unblocked
+   */
+  public static void dismiss() {
+    ShieldActivity activity = current.get();
+    if (activity != null) {
+      activity.runOnUiThread(activity::finish);
+    }
+  }
+
+  private void bind(Intent intent) {
+    titleView.setText(intent.getStringExtra(EXTRA_TITLE));
+    messageView.setText(intent.getStringExtra(EXTRA_MESSAGE));
+
+    String detail = intent.getStringExtra(EXTRA_DETAIL);
+    detailView.setText(detail == null ? "" : detail);
+
+    String buttonLabel = intent.getStringExtra(EXTRA_BUTTON_LABEL);
+    backButton.setText(buttonLabel == null ? "Go back" : buttonLabel);
+
+    String packageName = intent.getStringExtra(EXTRA_PACKAGE_NAME);
+    String[] actionIds = intent.getStringArrayExtra(EXTRA_ACTION_IDS);
+    String[] actionLabels = intent.getStringArrayExtra(EXTRA_ACTION_LABELS);
+
+    actionsView.removeAllViews();
+    if (actionIds == null || actionLabels == null) {
+      return;
+    }
+
+    for (int i = 0; i < actionIds.length && i < actionLabels.length; i++) {
+      String actionId = actionIds[i];
+      Button button = new Button(this);
+      button.setText(actionLabels[i]);
+      button.setOnClickListener(view -> sendAction(packageName, actionId));
+      actionsView.addView(button);
+    }
+  }
+
+  private void sendAction(String packageName, String actionId) {
+    Intent intent = new Intent(this, ForegroundTaskService.class);
+    intent.putExtra(ForegroundTaskService.EXTRA_TASK_NAME, ForegroundTaskService.SHIELD_ACTION_TASK_NAME);
+    intent.putExtra("packageName", packageName);
+    intent.putExtra("actionId", actionId);
+    startService(intent);
+  }
+
+  private TextView createText(int sizeSp, int style) {
+    TextView view = new TextView(this);
+    view.setTextColor(Color.WHITE);
+    view.setTextSize(sizeSp);
+    view.setTypeface(Typeface.DEFAULT, style);
+    view.setGravity(Gravity.CENTER);
+    view.setPadding(0, 0, 0, 32);
+    return view;
+  }
+
+  private void leave() {
+    Intent home = new Intent(Intent.ACTION_MAIN);
+    home.addCategory(Intent.CATEGORY_HOME);
+    home.setFlags(Intent.FLAG_ACTIVITY_NEW_TASK);
+    startActivity(home);
+    finish();
+  }
+}
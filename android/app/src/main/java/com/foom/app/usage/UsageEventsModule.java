@@ -0,0 +1,82 @@
+package com.foom.app.usage;
+
+import android.app.usage.UsageEvents;
+import android.app.usage.UsageStatsManager;
+import android.content.Context;
+import android.os.Build;
+
+import androidx.annotation.NonNull;
+
+import com.facebook.react.bridge.Arguments;
+import com.facebook.react.bridge.Promise;
+import com.facebook.react.bridge.ReactApplicationContext;
+import com.facebook.react.bridge.ReactContextBaseJavaModule;
+import com.facebook.react.bridge.ReactMethod;
+import com.facebook.react.bridge.WritableArray;
+import com.facebook.react.bridge.WritableMap;
+
+/**
+ * Exposes raw foreground/background transitions from UsageStatsManager so the
+ * JS side can rebuild per-app sessions. Pairing events into sessions happens in JS.
+ */
+public class UsageEventsModule extends ReactContextBaseJavaModule {
+  public static final String NAME = "FoomUsageEvents";
+
+  public UsageEventsModule(ReactApplicationContext context) {
+    super(context);
+  }
+
+  @NonNull
+  @Override
+  public String getName() {
+    return NAME;
+  }
+
+  @ReactMethod
+  public void queryEvents(double beginTime, double endTime, Promise promise) {
+    UsageStatsManager usageStatsManager =
+        (UsageStatsManager) getReactApplicationContext().getSystemService(Context.USAGE_STATS_SERVICE);
+    if (usageStatsManager == null) {
+      promise.reject("E_USAGE_STATS_UNAVAILABLE", "UsageStatsManager not found");
+      return;
+    }
+
+    try {
+      UsageEvents events = usageStatsManager.queryEvents((long) beginTime, (long) endTime);
+      UsageEvents.Event event = new UsageEvents.Event();
+      WritableArray result = Arguments.createArray();
+
+      while (events.hasNextEvent()) {
+        events.getNextEvent(event);
+        String type = mapEventType(event.getEventType());
+        if (type == null) {
+          continue;
+        }
+
+        WritableMap map = Arguments.createMap();
+        map.putString("packageName", event.getPackageName());
+        map.putDouble("timestamp", event.getTimeStamp());
+        map.putString("type", type);
+        result.pushMap(map);
+      }
+
+      promise.resolve(result);
+    } catch (Exception error) {
+      promise.reject("E_USAGE_EVENTS", error.getMessage(), error);
+    }
+  }
+
+  private static String mapEventType(int eventType) {
+    if (eventType == UsageEvents.Event.MOVE_TO_FOREGROUND) {
+      return "foreground";
+    }
+    if (eventType == UsageEvents.Event.MOVE_TO_BACKGROUND) {
+      return "background";
+    }
+    if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.P
+        && eventType == UsageEvents.Event.SCREEN_NON_INTERACTIVE) {
+      return "screen_off";
+    }
+    return null;
+  }
+}
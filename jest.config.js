@@ -0,0 +1,8 @@
+module.exports = {
+  preset: 'react-native',
+  setupFiles: ['<rootDir>/jest.setup.js'],
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native|react-native-usage-stats|@react-native(-community)?|@react-native-firebase|@notifee)/)',
+  ],
+  testPathIgnorePatterns: ['/node_modules/', '/android/'],
+};
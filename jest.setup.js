@@ -0,0 +1,13 @@
+/* eslint-env jest */
+
+// Native modules aren't linked under Jest; usage comes from MockUsageSource
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@notifee/react-native', () => require('@notifee/react-native/jest-mock'));
+
+jest.mock('@react-native-firebase/auth', () => () => ({}));
+
+jest.mock('@react-native-firebase/firestore', () => () => ({}));
@@ -1,12 +1,31 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { PaperProvider } from 'react-native-paper';
 import { StatusBar } from 'react-native';
 import { AuthProvider } from './src/auth/AuthContext';
 import AppNavigator from './src/navigation/AppNavigator';
 import { theme } from './src/utils/theme';
+import { usageAccessService } from './src/services/usageAccess';
+import { usageCollectionService } from './src/services/usageCollection';
+import { backgroundCollectionService } from './src/services/backgroundCollection';
+import { notificationService } from './src/services/notifications';
+import { blockingPolicyService } from './src/services/blockingPolicy';
+import { focusModeService } from './src/services/focusMode';
+
+backgroundCollectionService.registerHeadlessTask();
+blockingPolicyService.registerHeadlessTask();
 
 const App: React.FC = () => {
+    useEffect(() => usageAccessService.startMonitoring(), []);
+    useEffect(() => usageCollectionService.start(), []);
+    useEffect(() => {
+        focusModeService.resume();
+    }, []);
+    useEffect(() => {
+        notificationService.requestPermission();
+        backgroundCollectionService.configure();
+    }, []);
+
     return (
         <PaperProvider theme={theme}>
             <AuthProvider>
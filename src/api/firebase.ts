@@ -3,6 +3,7 @@ import auth from "@react-native-firebase/auth";
 import { UserProfile } from "../auth/AuthContext";
 import { DailyScreenTime } from "../store/screenTimeStore";
 import { TokenTransaction, Investment } from "../store/walletStore";
+import { getTodayDateString, shiftDateString } from "../utils/dates";
 
 // Firestore collections
 const COLLECTIONS = {
@@ -10,6 +11,12 @@ const COLLECTIONS = {
   SCREEN_TIME: "screenTime",
   TRANSACTIONS: "transactions",
   INVESTMENTS: "investments",
+  CONFIG: "config",
+} as const;
+
+// Documents in the config collection
+const CONFIG_DOCS = {
+  EVENT_CALENDAR: "eventCalendar",
 } as const;
 
 // User Profile Operations
@@ -108,14 +115,13 @@ export const getWeeklyScreenTime = async (): Promise<DailyScreenTime[]> => {
   const user = auth().currentUser;
   if (!user) throw new Error("User not authenticated");
 
-  const weekAgo = new Date();
-  weekAgo.setDate(weekAgo.getDate() - 7);
+  const weekAgo = shiftDateString(getTodayDateString(), -7);
 
   const snapshot = await firestore()
     .collection(COLLECTIONS.USERS)
     .doc(user.uid)
     .collection(COLLECTIONS.SCREEN_TIME)
-    .where("date", ">=", weekAgo.toISOString().split("T")[0])
+    .where("date", ">=", weekAgo)
     .orderBy("date", "desc")
     .get();
 
@@ -295,6 +301,20 @@ export const syncUserData = async (userData: {
   await batch.commit();
 };
 
+// Remote Config Operations
+export const getRemoteEventCalendar = async (): Promise<unknown | null> => {
+  const calendarDoc = await firestore()
+    .collection(COLLECTIONS.CONFIG)
+    .doc(CONFIG_DOCS.EVENT_CALENDAR)
+    .get();
+
+  if (calendarDoc.exists()) {
+    return calendarDoc.data()?.events ?? null;
+  }
+
+  return null;
+};
+
 // Real-time listeners
 export const subscribeToUserProfile = (
   uid: string,
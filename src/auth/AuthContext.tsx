@@ -3,6 +3,11 @@ import auth, { FirebaseAuthTypes } from '@react-native-firebase/auth';
 import firestore from '@react-native-firebase/firestore';
 import { useAuthStore } from '../store/authStore';
 
+export interface ScreenTimeGoal {
+    weekdayHours: number;
+    weekendHours: number;
+}
+
 export interface UserProfile {
     uid: string;
     email: string;
@@ -11,6 +16,7 @@ export interface UserProfile {
     age?: number;
     savingsGoal?: number;
     selectedMMF?: string;
+    screenTimeGoal?: ScreenTimeGoal;
     profileComplete: boolean;
     createdAt: Date;
 }
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Button, Chip, Dialog, Portal, Text, TextInput } from 'react-native-paper';
+import { CustomChallengeParams, CustomChallengeTemplate } from '../store/challengeStore';
+import { parseDowntimeMinute } from '../services/downtime';
+import { CONSTANTS } from '../utils/constants';
+
+interface CustomChallengeDialogProps {
+  visible: boolean;
+  apps: { packageName: string; appName: string }[];
+  tokenBalance: number;
+  onDismiss: () => void;
+  onCreate: (params: CustomChallengeParams, stake: number) => void;
+}
+
+const TEMPLATES: { template: CustomChallengeTemplate; label: string }[] = [
+  { template: 'app_time_under', label: 'App time limit' },
+  { template: 'category_free_until', label: 'Category-free morning' },
+  { template: 'days_under_goal', label: 'Days under goal' },
+];
+const CATEGORIES = Object.values(CONSTANTS.SCREEN_TIME_CATEGORIES);
+const { MIN_STAKE, STAKE_BONUS_RATE, MAX_CUSTOM_DAYS } = CONSTANTS.CHALLENGES;
+
+/**
+ * Set up a challenge of the user's own and the tokens staked on it
+ */
+const CustomChallengeDialog: React.FC<CustomChallengeDialogProps> = ({
+  visible,
+  apps,
+  tokenBalance,
+  onDismiss,
+  onCreate,
+}) => {
+  const [template, setTemplate] = useState<CustomChallengeTemplate>('app_time_under');
+  const [packageName, setPackageName] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [category, setCategory] = useState('');
+  const [until, setUntil] = useState('');
+  const [days, setDays] = useState('');
+  const [stake, setStake] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setTemplate('app_time_under');
+    setPackageName(apps[0]?.packageName || '');
+    setMinutes('30');
+    setCategory(CONSTANTS.SCREEN_TIME_CATEGORIES.SOCIAL_MEDIA);
+    setUntil('12:00');
+    setDays('3');
+    setStake(String(MIN_STAKE));
+    setError('');
+  }, [visible, apps]);
+
+  const stakeAmount = Number(stake);
+  const bonus = Number.isInteger(stakeAmount) ? Math.floor(stakeAmount * STAKE_BONUS_RATE) : 0;
+
+  const handleCreate = () => {
+    const minuteLimit = Number(minutes);
+    const untilMinute = parseDowntimeMinute(until);
+    const dayCount = Number(days);
+
+    if (template === 'app_time_under' && !packageName) {
+      setError('Pick an app');
+    } else if (template === 'app_time_under' && !(Number.isInteger(minuteLimit) && minuteLimit > 0)) {
+      setError('Enter a limit in whole minutes');
+    } else if (template === 'category_free_until' && (untilMinute === null || untilMinute === 0)) {
+      setError('Enter a time as HH:MM, e.g. 12:00');
+    } else if (template === 'days_under_goal' && !(Number.isInteger(dayCount) && dayCount >= 1 && dayCount <= MAX_CUSTOM_DAYS)) {
+      setError(`Pick between 1 and ${MAX_CUSTOM_DAYS} days`);
+    } else if (!Number.isInteger(stakeAmount) || stakeAmount < MIN_STAKE) {
+      setError(`Stake at least ${MIN_STAKE} tokens`);
+    } else if (stakeAmount > tokenBalance) {
+      setError(`You only have ${tokenBalance} tokens`);
+    } else {
+      const params: CustomChallengeParams =
+        template === 'app_time_under'
+          ? { template, packageName, minutes: minuteLimit }
+          : template === 'category_free_until'
+            ? { template, category, untilMinute: untilMinute! }
+            : { template, days: dayCount };
+      onCreate(params, stakeAmount);
+    }
+  };
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>New Challenge</Dialog.Title>
+        <Dialog.ScrollArea>
+          <ScrollView contentContainerStyle={styles.content}>
+            <View style={styles.chipRow}>
+              {TEMPLATES.map(option => (
+                <Chip
+                  key={option.template}
+                  selected={template === option.template}
+                  onPress={() => setTemplate(option.template)}
+                  style={styles.chip}
+                >
+                  {option.label}
+                </Chip>
+              ))}
+            </View>
+
+            {template === 'app_time_under' && (
+              <>
+                <Text style={styles.sectionLabel}>App</Text>
+                <View style={styles.chipRow}>
+                  {apps.map(app => (
+                    <Chip
+                      key={app.packageName}
+                      selected={packageName === app.packageName}
+                      onPress={() => setPackageName(app.packageName)}
+                      style={styles.chip}
+                    >
+                      {app.appName}
+                    </Chip>
+                  ))}
+                </View>
+                <TextInput
+                  label="Limit (minutes)"
+                  value={minutes}
+                  onChangeText={setMinutes}
+                  keyboardType="numeric"
+                  mode="outlined"
+                  style={styles.input}
+                />
+              </>
+            )}
+
+            {template === 'category_free_until' && (
+              <>
+                <Text style={styles.sectionLabel}>Category</Text>
+                <View style={styles.chipRow}>
+                  {CATEGORIES.map(option => (
+                    <Chip
+                      key={option}
+                      selected={category === option}
+                      onPress={() => setCategory(option)}
+                      style={styles.chip}
+                    >
+                      {option}
+                    </Chip>
+                  ))}
+                </View>
+                <TextInput
+                  label="Until (HH:MM)"
+                  value={until}
+                  onChangeText={setUntil}
+                  mode="outlined"
+                  style={styles.input}
+                />
+              </>
+            )}
+
+            {template === 'days_under_goal' && (
+              <TextInput
+                label="Days"
+                value={days}
+                onChangeText={setDays}
+                keyboardType="numeric"
+                mode="outlined"
+                style={styles.input}
+              />
+            )}
+
+            <TextInput
+              label="Stake (tokens)"
+              value={stake}
+              onChangeText={setStake}
+              keyboardType="numeric"
+              mode="outlined"
+              style={styles.input}
+            />
+            <Text style={styles.hint}>
+              Starts tomorrow. Succeed to get your stake back plus {bonus} tokens; fail and the stake is lost.
+            </Text>
+
+            {!!error && <Text style={styles.error}>{error}</Text>}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Cancel</Button>
+          <Button mode="contained" onPress={handleCreate}>
+            Stake & Start
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingVertical: 12,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  input: {
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 8,
+  },
+  error: {
+    color: '#F44336',
+    marginTop: 12,
+  },
+});
+
+export default CustomChallengeDialog;
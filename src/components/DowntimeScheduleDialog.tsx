@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Button, Chip, Dialog, Portal, Text, TextInput } from 'react-native-paper';
+import { DowntimeSchedule, DowntimeStrictness } from '../store/screenTimeStore';
+import { formatDowntimeMinute, parseDowntimeMinute } from '../services/downtime';
+import { getAppName } from '../services/usageSources';
+import { CONSTANTS } from '../utils/constants';
+
+interface DowntimeScheduleDialogProps {
+  visible: boolean;
+  schedule: DowntimeSchedule | null; // null when adding a new schedule
+  apps: { packageName: string; appName: string }[];
+  onDismiss: () => void;
+  onSave: (schedule: Omit<DowntimeSchedule, 'id'>) => void;
+  onDelete?: () => void;
+}
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const CATEGORIES = Object.values(CONSTANTS.SCREEN_TIME_CATEGORIES);
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+/**
+ * Create or edit a downtime schedule: when it runs, what it covers and how
+ * strictly it is enforced
+ */
+const DowntimeScheduleDialog: React.FC<DowntimeScheduleDialogProps> = ({
+  visible,
+  schedule,
+  apps,
+  onDismiss,
+  onSave,
+  onDelete,
+}) => {
+  const [name, setName] = useState('');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [packageNames, setPackageNames] = useState<string[]>([]);
+  const [strictness, setStrictness] = useState<DowntimeStrictness>('gentle');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setName(schedule?.name || 'Bedtime');
+    setStart(formatDowntimeMinute(schedule?.startMinute ?? 22 * 60));
+    setEnd(formatDowntimeMinute(schedule?.endMinute ?? 7 * 60));
+    setDaysOfWeek(schedule?.daysOfWeek || [0, 1, 2, 3, 4, 5, 6]);
+    setCategories(schedule?.categories || [CONSTANTS.SCREEN_TIME_CATEGORIES.SOCIAL_MEDIA]);
+    setPackageNames(schedule?.packageNames || []);
+    setStrictness(schedule?.strictness || 'gentle');
+    setError('');
+  }, [visible, schedule]);
+
+  const handleSave = () => {
+    const startMinute = parseDowntimeMinute(start);
+    const endMinute = parseDowntimeMinute(end);
+
+    if (!name.trim()) {
+      setError('Give the schedule a name');
+    } else if (startMinute === null || endMinute === null) {
+      setError('Enter times as HH:MM, e.g. 22:00');
+    } else if (daysOfWeek.length === 0) {
+      setError('Pick at least one day');
+    } else if (categories.length === 0 && packageNames.length === 0) {
+      setError('Pick at least one category or app');
+    } else {
+      onSave({
+        name: name.trim(),
+        daysOfWeek: [...daysOfWeek].sort((a, b) => a - b),
+        startMinute,
+        endMinute,
+        packageNames,
+        categories,
+        strictness,
+        enabled: schedule?.enabled ?? true,
+      });
+    }
+  };
+
+  // Apps picked earlier stay selectable even if they are no longer offered
+  const appChoices = [
+    ...apps,
+    ...packageNames
+      .filter(packageName => !apps.some(app => app.packageName === packageName))
+      .map(packageName => ({ packageName, appName: getAppName(packageName) })),
+  ];
+
+  return (
+    <Portal>
+      <Dialog visible={visible} onDismiss={onDismiss}>
+        <Dialog.Title>{schedule ? 'Edit Downtime' : 'New Downtime'}</Dialog.Title>
+        <Dialog.ScrollArea>
+          <ScrollView contentContainerStyle={styles.content}>
+            <TextInput
+              label="Name"
+              value={name}
+              onChangeText={setName}
+              mode="outlined"
+            />
+
+            <View style={styles.timeRow}>
+              <TextInput
+                label="Starts (HH:MM)"
+                value={start}
+                onChangeText={setStart}
+                mode="outlined"
+                style={styles.timeInput}
+              />
+              <TextInput
+                label="Ends (HH:MM)"
+                value={end}
+                onChangeText={setEnd}
+                mode="outlined"
+                style={styles.timeInput}
+              />
+            </View>
+
+            <Text style={styles.sectionLabel}>Days</Text>
+            <View style={styles.chipRow}>
+              {DAY_LABELS.map((label, day) => (
+                <Chip
+                  key={day}
+                  selected={daysOfWeek.includes(day)}
+                  onPress={() => setDaysOfWeek(toggle(daysOfWeek, day))}
+                  style={styles.chip}
+                >
+                  {label}
+                </Chip>
+              ))}
+            </View>
+
+            <Text style={styles.sectionLabel}>Categories</Text>
+            <View style={styles.chipRow}>
+              {CATEGORIES.map(category => (
+                <Chip
+                  key={category}
+                  selected={categories.includes(category)}
+                  onPress={() => setCategories(toggle(categories, category))}
+                  style={styles.chip}
+                >
+                  {category}
+                </Chip>
+              ))}
+            </View>
+
+            <Text style={styles.sectionLabel}>Apps</Text>
+            <View style={styles.chipRow}>
+              {appChoices.map(app => (
+                <Chip
+                  key={app.packageName}
+                  selected={packageNames.includes(app.packageName)}
+                  onPress={() => setPackageNames(toggle(packageNames, app.packageName))}
+                  style={styles.chip}
+                >
+                  {app.appName}
+                </Chip>
+              ))}
+            </View>
+
+            <Text style={styles.sectionLabel}>Strictness</Text>
+            <View style={styles.chipRow}>
+              <Chip
+                selected={strictness === 'gentle'}
+                onPress={() => setStrictness('gentle')}
+                style={styles.chip}
+              >
+                Gentle
+              </Chip>
+              <Chip
+                selected={strictness === 'strict'}
+                onPress={() => setStrictness('strict')}
+                style={styles.chip}
+              >
+                Strict
+              </Chip>
+            </View>
+            <Text style={styles.hint}>
+              {strictness === 'gentle'
+                ? 'The shield can be dismissed until the window ends.'
+                : 'Covered apps stay shielded until the window ends.'}
+            </Text>
+
+            {!!error && <Text style={styles.error}>{error}</Text>}
+
+            {schedule && onDelete && (
+              <Button mode="text" textColor="#F44336" onPress={onDelete}>
+                Delete Schedule
+              </Button>
+            )}
+          </ScrollView>
+        </Dialog.ScrollArea>
+        <Dialog.Actions>
+          <Button onPress={onDismiss}>Cancel</Button>
+          <Button mode="contained" onPress={handleSave}>
+            Save
+          </Button>
+        </Dialog.Actions>
+      </Dialog>
+    </Portal>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingVertical: 12,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  timeInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  error: {
+    color: '#F44336',
+    marginTop: 12,
+  },
+});
+
+export default DowntimeScheduleDialog;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { DailyScreenTime } from '../store/screenTimeStore';
+import { getTodayDateString, getWeekStartDateString, shiftDateString } from '../utils/dates';
+import { getGoalHours } from '../utils/goals';
+import { CONSTANTS } from '../utils/constants';
+
+interface StreakHeatmapProps {
+  records: Record<string, DailyScreenTime>;
+  weeks?: number;
+}
+
+const CELL_SIZE = 14;
+const EMPTY_COLOR = '#EEEEEE';
+const MISSED_COLOR = '#FFCDD2';
+const FROZEN_COLOR = '#BBDEFB';
+// Lightest to darkest: just under the goal to far under it
+const MET_COLORS = ['#C8E6C9', '#81C784', '#4CAF50', '#2E7D32'];
+const DAY_LABELS = ['M', '', 'W', '', 'F', '', 'S'];
+
+const getCellColor = (record: DailyScreenTime | undefined): string => {
+  if (!record || record.unmeasured) return EMPTY_COLOR;
+  if (record.streakFreezeUsed) return FROZEN_COLOR;
+
+  const goalMs = getGoalHours(record.date) * CONSTANTS.TIME.HOUR;
+  if (record.totalTime > goalMs) return MISSED_COLOR;
+
+  const underGoal = 1 - record.totalTime / goalMs;
+  const level = Math.min(MET_COLORS.length - 1, Math.floor(underGoal * MET_COLORS.length));
+  return MET_COLORS[level];
+};
+
+/**
+ * Calendar grid of recent days, one column per week, shaded by how far
+ * under the goal each day finished
+ */
+const StreakHeatmap: React.FC<StreakHeatmapProps> = ({ records, weeks = 12 }) => {
+  const today = getTodayDateString();
+  const firstWeek = shiftDateString(getWeekStartDateString(today), -7 * (weeks - 1));
+
+  return (
+    <View>
+      <View style={styles.grid}>
+        <View style={styles.column}>
+          {DAY_LABELS.map((label, index) => (
+            <Text key={index} style={styles.dayLabel}>{label}</Text>
+          ))}
+        </View>
+        {Array.from({ length: weeks }, (_, week) => (
+          <View key={week} style={styles.column}>
+            {Array.from({ length: 7 }, (_, day) => {
+              const date = shiftDateString(firstWeek, week * 7 + day);
+              return (
+                <View
+                  key={date}
+                  style={[
+                    styles.cell,
+                    { backgroundColor: date > today ? 'transparent' : getCellColor(records[date]) },
+                    date === today && styles.todayCell,
+                  ]}
+                />
+              );
+            })}
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>Over goal</Text>
+        <View style={[styles.legendCell, { backgroundColor: MISSED_COLOR }]} />
+        <Text style={[styles.legendText, styles.legendSpacer]}>Frozen</Text>
+        <View style={[styles.legendCell, { backgroundColor: FROZEN_COLOR }]} />
+        <Text style={[styles.legendText, styles.legendSpacer]}>Under goal</Text>
+        {MET_COLORS.map(color => (
+          <View key={color} style={[styles.legendCell, { backgroundColor: color }]} />
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+  },
+  column: {
+    marginRight: 3,
+  },
+  cell: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    borderRadius: 3,
+    marginBottom: 3,
+  },
+  todayCell: {
+    borderWidth: 1,
+    borderColor: '#6200EE',
+  },
+  dayLabel: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    marginBottom: 3,
+    fontSize: 10,
+    lineHeight: CELL_SIZE,
+    color: '#666',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  legendCell: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginLeft: 3,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  legendSpacer: {
+    marginLeft: 12,
+  },
+});
+
+export default StreakHeatmap;
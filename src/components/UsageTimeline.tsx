@@ -0,0 +1,180 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { HourlyUsageBucket } from '../store/screenTimeStore';
+import { CONSTANTS } from '../utils/constants';
+import { formatTime } from '../utils/helpers';
+
+interface UsageTimelineProps {
+  buckets: HourlyUsageBucket[];
+  appNames: Record<string, string>; // packageName -> display name
+  maxLegendApps?: number;
+}
+
+const BAR_HEIGHT = 96;
+const OTHER_COLOR = '#BDBDBD';
+const FALLBACK_COLORS = ['#6200EE', '#03DAC6', '#FF9800', '#2196F3', '#9C27B0', '#4CAF50'];
+const LABEL_POSITIONS = [0, 6, 12, 18]; // bucket indexes that get an axis label
+
+const formatHourLabel = (hour: number): string => {
+  if (hour === 0) return '12a';
+  if (hour === 12) return '12p';
+  return hour < 12 ? `${hour}a` : `${hour - 12}p`;
+};
+
+/**
+ * 24-hour stacked bar chart showing which apps filled which hours
+ */
+const UsageTimeline: React.FC<UsageTimelineProps> = ({
+  buckets,
+  appNames,
+  maxLegendApps = 4,
+}) => {
+  // Rank apps by total time so the biggest ones get their own colour
+  const totals: Record<string, number> = {};
+  buckets.forEach(bucket => {
+    Object.entries(bucket.apps).forEach(([packageName, time]) => {
+      totals[packageName] = (totals[packageName] || 0) + time;
+    });
+  });
+
+  const topApps = Object.keys(totals)
+    .sort((a, b) => totals[b] - totals[a])
+    .slice(0, maxLegendApps);
+
+  const colors: Record<string, string> = {};
+  topApps.forEach((packageName, index) => {
+    const known = CONSTANTS.POPULAR_APPS.find(app => app.packageName === packageName);
+    colors[packageName] = known?.color || FALLBACK_COLORS[index % FALLBACK_COLORS.length];
+  });
+
+  const hasOther = Object.keys(totals).length > topApps.length;
+
+  if (topApps.length === 0) {
+    return (
+      <Text style={styles.emptyText}>No app sessions recorded yet today</Text>
+    );
+  }
+
+  return (
+    <View>
+      <View style={styles.chart}>
+        {buckets.map(bucket => {
+          const otherTime = Object.entries(bucket.apps)
+            .filter(([packageName]) => !colors[packageName])
+            .reduce((sum, [, time]) => sum + time, 0);
+
+          return (
+            <View key={bucket.hour} style={styles.column}>
+              <View style={styles.bar}>
+                {otherTime > 0 && (
+                  <View
+                    style={{
+                      height: (otherTime / CONSTANTS.TIME.HOUR) * BAR_HEIGHT,
+                      backgroundColor: OTHER_COLOR,
+                    }}
+                  />
+                )}
+                {topApps
+                  .filter(packageName => bucket.apps[packageName])
+                  .map(packageName => (
+                    <View
+                      key={packageName}
+                      style={{
+                        height: (bucket.apps[packageName] / CONSTANTS.TIME.HOUR) * BAR_HEIGHT,
+                        backgroundColor: colors[packageName],
+                      }}
+                    />
+                  ))}
+              </View>
+            </View>
+          );
+        })}
+      </View>
+
+      <View style={styles.axis}>
+        {LABEL_POSITIONS.map(index => (
+          <Text key={index} style={styles.axisLabel}>
+            {formatHourLabel(buckets[index]?.hour ?? index)}
+          </Text>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        {topApps.map(packageName => (
+          <View key={packageName} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: colors[packageName] }]} />
+            <Text style={styles.legendText}>
+              {appNames[packageName] || packageName} · {formatTime(totals[packageName])}
+            </Text>
+          </View>
+        ))}
+        {hasOther && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: OTHER_COLOR }]} />
+            <Text style={styles.legendText}>Other</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: BAR_HEIGHT,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  column: {
+    flex: 1,
+    marginHorizontal: 1,
+  },
+  bar: {
+    justifyContent: 'flex-end',
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+    overflow: 'hidden',
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+    paddingRight: '25%',
+  },
+  axisLabel: {
+    fontSize: 10,
+    color: '#666',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+    marginBottom: 6,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
+
+export default UsageTimeline;
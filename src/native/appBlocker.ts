@@ -0,0 +1,110 @@
+import { NativeModules, Platform } from 'react-native';
+
+/**
+ * Name of the headless task ForegroundTaskService runs on every app switch
+ */
+export const FOREGROUND_CHANGE_TASK = 'FoomForegroundChange';
+
+/**
+ * Name of the headless task the shield runs when one of its actions is pressed
+ */
+export const SHIELD_ACTION_TASK = 'FoomShieldAction';
+
+/**
+ * Payload of a foreground change reported by the accessibility service
+ */
+export interface ForegroundChangeEvent {
+  packageName: string;
+  timestamp: number;
+}
+
+/**
+ * Payload of a shield button press other than "go back"
+ */
+export interface ShieldActionEvent {
+  packageName: string;
+  actionId: string;
+}
+
+export interface ShieldAction {
+  id: string;
+  label: string;
+}
+
+/**
+ * Text and extra buttons shown on the full-screen shield
+ */
+export interface ShieldOptions {
+  packageName: string;
+  title: string;
+  message: string;
+  detail?: string;
+  buttonLabel?: string;
+  actions?: ShieldAction[];
+}
+
+interface AppBlockerNativeModule {
+  isServiceEnabled(): Promise<boolean>;
+  canDrawOverlays(): Promise<boolean>;
+  openAccessibilitySettings(): Promise<boolean>;
+  openOverlaySettings(): Promise<boolean>;
+  getProtectedPackages(): Promise<string[]>;
+  showShield(options: ShieldOptions): Promise<boolean>;
+  hideShield(): Promise<boolean>;
+}
+
+const nativeModule = NativeModules.FoomAppBlocker as AppBlockerNativeModule | undefined;
+
+/**
+ * Check whether the app blocker native module is linked on this platform
+ */
+export const isAppBlockerAvailable = (): boolean => {
+  return Platform.OS === 'android' && !!nativeModule;
+};
+
+const requireModule = (): AppBlockerNativeModule => {
+  if (!isAppBlockerAvailable()) {
+    throw new Error('App blocking is not available on this platform');
+  }
+  return nativeModule!;
+};
+
+/**
+ * Whether the FOOM accessibility service is switched on
+ */
+export const isBlockerServiceEnabled = async (): Promise<boolean> => {
+  if (!isAppBlockerAvailable()) return false;
+  return nativeModule!.isServiceEnabled();
+};
+
+/**
+ * Whether FOOM may draw over other apps, needed to open the shield from the background
+ */
+export const canDrawOverlays = async (): Promise<boolean> => {
+  if (!isAppBlockerAvailable()) return false;
+  return nativeModule!.canDrawOverlays();
+};
+
+export const openAccessibilitySettings = async (): Promise<void> => {
+  await requireModule().openAccessibilitySettings();
+};
+
+export const openOverlaySettings = async (): Promise<void> => {
+  await requireModule().openOverlaySettings();
+};
+
+/**
+ * FOOM's own package and the home screens, which must never be shielded
+ */
+export const getProtectedPackages = async (): Promise<string[]> => {
+  if (!isAppBlockerAvailable()) return [];
+  return nativeModule!.getProtectedPackages();
+};
+
+export const showShield = async (options: ShieldOptions): Promise<void> => {
+  await requireModule().showShield(options);
+};
+
+export const hideShield = async (): Promise<void> => {
+  await requireModule().hideShield();
+};
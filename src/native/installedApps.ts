@@ -0,0 +1,47 @@
+import { NativeModules, Platform } from 'react-native';
+
+// ApplicationInfo.category as declared by the app's developer (Android O+)
+export type SystemAppCategory =
+  | 'game'
+  | 'audio'
+  | 'video'
+  | 'image'
+  | 'social'
+  | 'news'
+  | 'maps'
+  | 'productivity';
+
+/**
+ * A launchable app from PackageManager
+ */
+export interface NativeInstalledApp {
+  packageName: string;
+  appName: string;
+  systemCategory: SystemAppCategory | null;
+  isSystemApp: boolean;
+  icon?: string; // PNG data URI, when icons were requested
+}
+
+interface InstalledAppsNativeModule {
+  getInstalledApps(includeIcons: boolean): Promise<NativeInstalledApp[]>;
+}
+
+const nativeModule = NativeModules.FoomInstalledApps as InstalledAppsNativeModule | undefined;
+
+/**
+ * Check whether the installed apps native module is linked on this platform
+ */
+export const isInstalledAppsAvailable = (): boolean => {
+  return Platform.OS === 'android' && !!nativeModule;
+};
+
+/**
+ * List the apps that appear in the launcher, excluding FOOM itself
+ */
+export const getInstalledApps = async (includeIcons: boolean = false): Promise<NativeInstalledApp[]> => {
+  if (!isInstalledAppsAvailable()) {
+    throw new Error('Installed apps are not available on this platform');
+  }
+
+  return nativeModule!.getInstalledApps(includeIcons);
+};
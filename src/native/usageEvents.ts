@@ -0,0 +1,39 @@
+import { NativeModules, Platform } from 'react-native';
+
+export type UsageEventType = 'foreground' | 'background' | 'screen_off';
+
+/**
+ * A single foreground/background transition from UsageStatsManager.queryEvents
+ */
+export interface NativeUsageEvent {
+  packageName: string;
+  timestamp: number;
+  type: UsageEventType;
+}
+
+interface UsageEventsNativeModule {
+  queryEvents(beginTime: number, endTime: number): Promise<NativeUsageEvent[]>;
+}
+
+const nativeModule = NativeModules.FoomUsageEvents as UsageEventsNativeModule | undefined;
+
+/**
+ * Check whether the usage events native module is linked on this platform
+ */
+export const isUsageEventsAvailable = (): boolean => {
+  return Platform.OS === 'android' && !!nativeModule;
+};
+
+/**
+ * Query raw usage events for the [beginTime, endTime) window, oldest first
+ */
+export const queryUsageEvents = async (
+  beginTime: number,
+  endTime: number
+): Promise<NativeUsageEvent[]> => {
+  if (!isUsageEventsAvailable()) {
+    throw new Error('Usage events are not available on this platform');
+  }
+
+  return nativeModule!.queryEvents(beginTime, endTime);
+};
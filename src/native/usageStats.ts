@@ -0,0 +1,37 @@
+import { Linking, Platform } from 'react-native';
+import UsageStats from 'react-native-usage-stats';
+
+interface UsageStatsNativeModule {
+  checkPermission(): Promise<boolean>;
+}
+
+const nativeModule = UsageStats as unknown as UsageStatsNativeModule | undefined;
+
+/**
+ * Check whether the usage stats native module is linked on this platform
+ */
+export const isUsageStatsAvailable = (): boolean => {
+  return Platform.OS === 'android' && !!nativeModule;
+};
+
+/**
+ * Check whether FOOM has been granted usage access
+ */
+export const checkUsageStatsPermission = async (): Promise<boolean> => {
+  if (!isUsageStatsAvailable()) return false;
+  return nativeModule!.checkPermission();
+};
+
+/**
+ * Deep-link to the system Usage Access settings page. Usage access is an
+ * AppOps permission, so it can only be granted there, never at runtime.
+ */
+export const openUsageAccessSettings = async (): Promise<void> => {
+  try {
+    await Linking.sendIntent('android.settings.USAGE_ACCESS_SETTINGS');
+  } catch (error) {
+    // Some OEM builds hide the page; fall back to FOOM's app settings
+    console.warn('Usage Access settings unavailable, opening app settings:', error);
+    await Linking.openSettings();
+  }
+};
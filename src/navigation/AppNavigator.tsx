@@ -16,6 +16,9 @@ import WalletScreen from '../screens/WalletScreen';
 import AppManagementScreen from '../screens/AppManagementScreen';
 import InvestScreen from '../screens/InvestScreen';
 import SettingsScreen from '../screens/SettingsScreen';
+import FocusScreen from '../screens/FocusScreen';
+import ChallengesScreen from '../screens/ChallengesScreen';
+import AchievementsScreen from '../screens/AchievementsScreen';
 
 import { RootStackParamList, MainTabParamList } from './types';
 
@@ -39,6 +42,9 @@ const MainTabNavigator = () => {
                         case 'Apps':
                             iconName = focused ? 'cellphone-cog' : 'cellphone-settings';
                             break;
+                        case 'Challenges':
+                            iconName = focused ? 'trophy' : 'trophy-outline';
+                            break;
                         case 'Invest':
                             iconName = focused ? 'trending-up' : 'chart-line';
                             break;
@@ -59,6 +65,7 @@ const MainTabNavigator = () => {
             <Tab.Screen name="Dashboard" component={DashboardScreen} />
             <Tab.Screen name="Wallet" component={WalletScreen} />
             <Tab.Screen name="Apps" component={AppManagementScreen} />
+            <Tab.Screen name="Challenges" component={ChallengesScreen} />
             <Tab.Screen name="Invest" component={InvestScreen} />
             <Tab.Screen name="Settings" component={SettingsScreen} />
         </Tab.Navigator>
@@ -89,7 +96,11 @@ const AppNavigator: React.FC = () => {
                 <Stack.Screen name="ProfileSetup" component={ProfileSetupScreen} />
             ) : (
                 // Main App
-                <Stack.Screen name="Main" component={MainTabNavigator} />
+                <>
+                    <Stack.Screen name="Main" component={MainTabNavigator} />
+                    <Stack.Screen name="Focus" component={FocusScreen} />
+                    <Stack.Screen name="Achievements" component={AchievementsScreen} />
+                </>
             )}
         </Stack.Navigator>
     );
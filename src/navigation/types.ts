@@ -7,12 +7,15 @@ export type RootStackParamList = {
   Register: undefined;
   ProfileSetup: undefined;
   Main: NavigatorScreenParams<MainTabParamList>;
+  Focus: undefined;
+  Achievements: undefined;
 };
 
 export type MainTabParamList = {
   Dashboard: undefined;
   Wallet: undefined;
   Apps: undefined;
+  Challenges: undefined;
   Invest: undefined;
   Settings: undefined;
 };
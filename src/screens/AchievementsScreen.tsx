@@ -0,0 +1,163 @@
+import React, { useEffect } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import {
+  Card,
+  Title,
+  Paragraph,
+  Text,
+  IconButton,
+  ProgressBar,
+} from 'react-native-paper';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useNavigation } from '@react-navigation/native';
+import { useAchievementStore } from '../store/achievementStore';
+import { ACHIEVEMENTS, AchievementDefinition, achievementService } from '../services/achievements';
+import { formatDate } from '../utils/helpers';
+
+const AchievementsScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { unlocked } = useAchievementStore();
+
+  useEffect(() => {
+    achievementService.evaluate();
+  }, []);
+
+  const progress = achievementService.getProgress();
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => unlocked[achievement.id]).length;
+
+  // Earned badges first, newest first; then the closest to unlocking
+  const badges = [...ACHIEVEMENTS].sort((a, b) => {
+    const unlockedA = unlocked[a.id];
+    const unlockedB = unlocked[b.id];
+    if (unlockedA && unlockedB) return unlockedB.unlockedAt - unlockedA.unlockedAt;
+    if (unlockedA || unlockedB) return unlockedA ? -1 : 1;
+    return progress[b.metric] / b.threshold - progress[a.metric] / a.threshold;
+  });
+
+  const renderBadge = (achievement: AchievementDefinition) => {
+    const unlock = unlocked[achievement.id];
+    const value = Math.min(achievement.threshold, progress[achievement.metric]);
+
+    return (
+      <Card key={achievement.id} style={[styles.badge, !unlock && styles.lockedBadge]}>
+        <Card.Content style={styles.badgeContent}>
+          <View style={[styles.iconCircle, { backgroundColor: unlock ? '#FFF8E1' : '#EEEEEE' }]}>
+            <Icon name={unlock ? achievement.icon : 'lock'} size={32} color={unlock ? '#FF9800' : '#BDBDBD'} />
+          </View>
+          <Text style={styles.badgeTitle}>{achievement.title}</Text>
+          <Text style={styles.badgeDescription}>{achievement.description}</Text>
+          {unlock ? (
+            <Text style={styles.badgeFooter}>
+              {formatDate(unlock.unlockedAt)}
+              {unlock.tokensAwarded > 0 ? ` · +${unlock.tokensAwarded}` : ''}
+            </Text>
+          ) : (
+            <>
+              <ProgressBar
+                progress={value / achievement.threshold}
+                color="#6200EE"
+                style={styles.progressBar}
+              />
+              <Text style={styles.badgeFooter}>
+                {value}/{achievement.threshold}
+                {achievement.rewardTokens > 0 ? ` · ${achievement.rewardTokens} tokens` : ''}
+              </Text>
+            </>
+          )}
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <IconButton icon="arrow-left" onPress={() => navigation.goBack()} style={styles.backButton} />
+        <Title style={styles.title}>Badges</Title>
+        <Paragraph style={styles.subtitle}>
+          {unlockedCount} of {ACHIEVEMENTS.length} unlocked
+        </Paragraph>
+      </View>
+
+      <View style={styles.grid}>
+        {badges.map(renderBadge)}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 20,
+    paddingTop: 40,
+  },
+  backButton: {
+    marginLeft: -8,
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 4,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  badge: {
+    width: '48%',
+    marginBottom: 12,
+    elevation: 2,
+  },
+  lockedBadge: {
+    opacity: 0.8,
+  },
+  badgeContent: {
+    alignItems: 'center',
+  },
+  iconCircle: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  badgeTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+  },
+  badgeDescription: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  progressBar: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: 8,
+    alignSelf: 'stretch',
+  },
+  badgeFooter: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 6,
+  },
+});
+
+export default AchievementsScreen;
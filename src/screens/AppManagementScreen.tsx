@@ -5,6 +5,8 @@ import {
   StyleSheet,
   Alert,
   RefreshControl,
+  AppState,
+  Image,
 } from 'react-native';
 import {
   Card,
@@ -19,14 +21,39 @@ import {
   Snackbar,
   Dialog,
   Portal,
+  Searchbar,
+  RadioButton,
+  ProgressBar,
 } from 'react-native-paper';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
-import { useScreenTimeStore, BlockedApp } from '../store/screenTimeStore';
-import { screenTimeService } from '../services/screenTime';
+import {
+  useScreenTimeStore,
+  BlockedApp,
+  CategoryLimit,
+  DowntimeSchedule,
+} from '../store/screenTimeStore';
+import { usePermissionStore } from '../store/permissionStore';
+import { useAppCatalogStore } from '../store/appCatalogStore';
+import { usageAccessService } from '../services/usageAccess';
+import { usageCollectionService } from '../services/usageCollection';
+import { getAppName, getAppCategory } from '../services/usageSources';
+import { appCatalogService } from '../services/appCatalog';
+import { getCategoryUsage } from '../services/limitEngine';
+import { blockingPolicyService, BlockerSetupStatus } from '../services/blockingPolicy';
+import { formatDowntimeMinute } from '../services/downtime';
+import { openAccessibilitySettings, openOverlaySettings } from '../native/appBlocker';
+import DowntimeScheduleDialog from '../components/DowntimeScheduleDialog';
+import { CONSTANTS } from '../utils/constants';
+import { formatTime } from '../utils/helpers';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const CATEGORIES = Object.values(CONSTANTS.SCREEN_TIME_CATEGORIES);
 
 interface AppWithUsage extends BlockedApp {
   todayUsage: number; // in minutes
   isOverLimit: boolean;
+  category: string;
+  isCategoryOverridden: boolean;
 }
 
 const AppManagementScreen: React.FC = () => {
@@ -35,101 +62,131 @@ const AppManagementScreen: React.FC = () => {
     addBlockedApp,
     updateBlockedApp,
     removeBlockedApp,
+    categoryLimits,
+    setCategoryLimit,
+    removeCategoryLimit,
     currentDayUsage,
+    downtimeSchedules,
+    addDowntimeSchedule,
+    updateDowntimeSchedule,
+    removeDowntimeSchedule,
   } = useScreenTimeStore();
+  const { usageAccess } = usePermissionStore();
+  const { installedApps, icons, categoryOverrides, setCategoryOverride } = useAppCatalogStore();
   
   const [refreshing, setRefreshing] = useState(false);
   const [apps, setApps] = useState<AppWithUsage[]>([]);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showLimitDialog, setShowLimitDialog] = useState(false);
   const [selectedApp, setSelectedApp] = useState<AppWithUsage | null>(null);
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [expandedCategories, setExpandedCategories] = useState<Record<string, boolean>>({});
   const [newLimit, setNewLimit] = useState('');
+  const [showDowntimeDialog, setShowDowntimeDialog] = useState(false);
+  const [selectedSchedule, setSelectedSchedule] = useState<DowntimeSchedule | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [categoryApp, setCategoryApp] = useState<AppWithUsage | null>(null);
   const [snackbarVisible, setSnackbarVisible] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
-
-  // Popular apps that users commonly want to block
-  const POPULAR_APPS = [
-    {
-      packageName: 'com.instagram.android',
-      appName: 'Instagram',
-      icon: 'instagram',
-    },
-    {
-      packageName: 'com.facebook.katana',
-      appName: 'Facebook',
-      icon: 'facebook',
-    },
-    {
-      packageName: 'com.twitter.android',
-      appName: 'Twitter',
-      icon: 'twitter',
-    },
-    {
-      packageName: 'com.zhiliaoapp.musically',
-      appName: 'TikTok',
-      icon: 'music-note',
-    },
-    {
-      packageName: 'com.google.android.youtube',
-      appName: 'YouTube',
-      icon: 'youtube',
-    },
-    {
-      packageName: 'com.snapchat.android',
-      appName: 'Snapchat',
-      icon: 'snapchat',
-    },
-    {
-      packageName: 'com.netflix.mediaclient',
-      appName: 'Netflix',
-      icon: 'netflix',
-    },
-  ];
+  const [blockerSetup, setBlockerSetup] = useState<BlockerSetupStatus>({
+    serviceEnabled: false,
+    overlayAllowed: false,
+  });
 
   useEffect(() => {
     loadAppsData();
-  }, [blockedApps, currentDayUsage]);
+  }, [blockedApps, currentDayUsage, installedApps, categoryOverrides]);
+
+  useEffect(() => {
+    appCatalogService.refresh();
+  }, []);
+
+  // Both blocker permissions are granted in system settings, so re-check on return
+  useEffect(() => {
+    const refreshBlockerSetup = () => {
+      blockingPolicyService.getSetupStatus().then(setBlockerSetup);
+    };
+
+    refreshBlockerSetup();
+    const subscription = AppState.addEventListener('change', status => {
+      if (status === 'active') refreshBlockerSetup();
+    });
+    return () => subscription.remove();
+  }, []);
 
   const loadAppsData = () => {
-    const appsWithUsage: AppWithUsage[] = POPULAR_APPS.map(app => {
-      const blockedApp = blockedApps.find(blocked => blocked.packageName === app.packageName);
-      const usage = currentDayUsage.find(usage => usage.packageName === app.packageName);
+    // Without the installed app list (e.g. off Android) fall back to the well-known apps
+    const knownApps = installedApps.length > 0 ? installedApps : CONSTANTS.POPULAR_APPS;
+    // Keep restricted apps listed even if they have since been uninstalled
+    const packageNames = [
+      ...knownApps.map(app => app.packageName),
+      ...blockedApps.map(app => app.packageName),
+    ].filter((packageName, index, all) => all.indexOf(packageName) === index);
+
+    const appsWithUsage: AppWithUsage[] = packageNames.map(packageName => {
+      const blockedApp = blockedApps.find(blocked => blocked.packageName === packageName);
+      const usage = currentDayUsage.find(usage => usage.packageName === packageName);
       const todayUsageMinutes = usage ? Math.round(usage.timeSpent / (1000 * 60)) : 0;
       
       return {
-        packageName: app.packageName,
-        appName: app.appName,
+        packageName,
+        appName: blockedApp?.appName || getAppName(packageName),
         isBlocked: blockedApp?.isBlocked || false,
         dailyLimit: blockedApp?.dailyLimit || undefined,
         todayUsage: todayUsageMinutes,
         isOverLimit: blockedApp?.dailyLimit ? todayUsageMinutes > blockedApp.dailyLimit : false,
+        category: getAppCategory(packageName),
+        isCategoryOverridden: !!categoryOverrides[packageName],
       };
     });
 
+    // Restricted apps first, then the most used
+    appsWithUsage.sort((a, b) =>
+      Number(!!(b.isBlocked || b.dailyLimit)) - Number(!!(a.isBlocked || a.dailyLimit)) ||
+      b.todayUsage - a.todayUsage ||
+      a.appName.localeCompare(b.appName)
+    );
+
     setApps(appsWithUsage);
   };
 
   const onRefresh = async () => {
     setRefreshing(true);
     try {
-      // In a real app, this would refresh usage stats from the system
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      loadAppsData();
+      await Promise.all([
+        usageCollectionService.collectToday(),
+        appCatalogService.refresh(),
+      ]);
     } finally {
       setRefreshing(false);
     }
   };
 
+  // Blocks are only enforced once the blocker service is set up
+  const promptBlockerSetup = async () => {
+    if (!(await blockingPolicyService.isEnforcementReady())) {
+      Alert.alert(
+        'Finish Blocker Setup',
+        'FOOM needs the Accessibility Service and Display Over Other Apps permissions to stop blocked apps from opening.',
+        [
+          { text: 'Later', style: 'cancel' },
+          { text: 'Set Up', onPress: () => blockingPolicyService.openSetup() },
+        ]
+      );
+    }
+  };
+
   const handleToggleBlock = async (app: AppWithUsage) => {
     try {
       if (app.isBlocked) {
         // Unblock app
-        await screenTimeService.unblockApp(app.packageName);
         updateBlockedApp(app.packageName, { isBlocked: false });
         setSnackbarMessage(`${app.appName} unblocked`);
       } else {
         // Block app
-        await screenTimeService.blockApp(app.packageName);
+        await promptBlockerSetup();
+
         const blockedApp: BlockedApp = {
           packageName: app.packageName,
           appName: app.appName,
@@ -146,21 +203,57 @@ const AppManagementScreen: React.FC = () => {
     }
   };
 
+  const handleToggleCategoryBlock = async (category: string) => {
+    const current = categoryLimits.find(limit => limit.category === category);
+
+    if (current?.isBlocked) {
+      if (current.dailyLimit) {
+        setCategoryLimit({ ...current, isBlocked: false });
+      } else {
+        removeCategoryLimit(category);
+      }
+      setSnackbarMessage(`${category} apps unblocked`);
+    } else {
+      await promptBlockerSetup();
+      setCategoryLimit({ category, dailyLimit: current?.dailyLimit, isBlocked: true });
+      setSnackbarMessage(`${category} apps blocked`);
+    }
+    setSnackbarVisible(true);
+  };
+
   const handleSetLimit = (app: AppWithUsage) => {
     setSelectedApp(app);
+    setSelectedCategory(null);
     setNewLimit(app.dailyLimit?.toString() || '');
     setShowLimitDialog(true);
   };
 
-  const handleSaveLimit = () => {
-    if (!selectedApp) return;
+  const handleSetCategoryLimit = (category: string) => {
+    const current = categoryLimits.find(limit => limit.category === category);
+    setSelectedCategory(category);
+    setSelectedApp(null);
+    setNewLimit(current?.dailyLimit?.toString() || '');
+    setShowLimitDialog(true);
+  };
 
+  const handleSaveLimit = () => {
     const limit = parseInt(newLimit);
     if (isNaN(limit) || limit <= 0) {
       Alert.alert('Invalid Limit', 'Please enter a valid number of minutes');
       return;
     }
 
+    if (selectedCategory) {
+      const current = categoryLimits.find(c => c.category === selectedCategory);
+      setCategoryLimit({ category: selectedCategory, isBlocked: current?.isBlocked || false, dailyLimit: limit });
+      setSnackbarMessage(`Daily budget set for ${selectedCategory}: ${limit} minutes`);
+      setSnackbarVisible(true);
+      setShowLimitDialog(false);
+      setSelectedCategory(null);
+      return;
+    }
+    if (!selectedApp) return;
+
     const blockedApp: BlockedApp = {
       packageName: selectedApp.packageName,
       appName: selectedApp.appName,
@@ -181,8 +274,62 @@ const AppManagementScreen: React.FC = () => {
     setSnackbarVisible(true);
   };
 
+  const handleRemoveCategoryLimit = (limit: CategoryLimit) => {
+    if (limit.isBlocked) {
+      setCategoryLimit({ ...limit, dailyLimit: undefined });
+    } else {
+      removeCategoryLimit(limit.category);
+    }
+    setSnackbarMessage(`Daily budget removed for ${limit.category}`);
+    setSnackbarVisible(true);
+  };
+
+  const handleEditDowntime = (schedule: DowntimeSchedule | null) => {
+    setSelectedSchedule(schedule);
+    setShowDowntimeDialog(true);
+  };
+
+  const handleSaveDowntime = (schedule: Omit<DowntimeSchedule, 'id'>) => {
+    if (selectedSchedule) {
+      updateDowntimeSchedule(selectedSchedule.id, schedule);
+    } else {
+      addDowntimeSchedule(schedule);
+    }
+    setSnackbarMessage(`Downtime "${schedule.name}" saved`);
+    setSnackbarVisible(true);
+    setShowDowntimeDialog(false);
+    setSelectedSchedule(null);
+  };
+
+  const handleDeleteDowntime = () => {
+    if (!selectedSchedule) return;
+
+    removeDowntimeSchedule(selectedSchedule.id);
+    setSnackbarMessage(`Downtime "${selectedSchedule.name}" deleted`);
+    setSnackbarVisible(true);
+    setShowDowntimeDialog(false);
+    setSelectedSchedule(null);
+  };
+
+  const describeDowntime = (schedule: DowntimeSchedule): string => {
+    const days = schedule.daysOfWeek.length === 7
+      ? 'Every day'
+      : schedule.daysOfWeek.map(day => DAY_NAMES[day]).join(', ');
+    const covered = [...schedule.categories, ...schedule.packageNames.map(getAppName)].join(', ');
+    return `${formatDowntimeMinute(schedule.startMinute)}–${formatDowntimeMinute(schedule.endMinute)} · ${days} · ${covered}`;
+  };
+
+  const handleSetCategory = (category: string | null) => {
+    if (!categoryApp) return;
+
+    setCategoryOverride(categoryApp.packageName, category);
+    setSnackbarMessage(`${categoryApp.appName} moved to ${category || getAppCategory(categoryApp.packageName)}`);
+    setSnackbarVisible(true);
+    setCategoryApp(null);
+  };
+
   const getAppIcon = (packageName: string): string => {
-    const app = POPULAR_APPS.find(app => app.packageName === packageName);
+    const app = CONSTANTS.POPULAR_APPS.find(app => app.packageName === packageName);
     return app?.icon || 'application';
   };
 
@@ -193,8 +340,110 @@ const AppManagementScreen: React.FC = () => {
   };
 
   const totalBlockedApps = apps.filter(app => app.isBlocked).length;
-  const totalAppsWithLimits = apps.filter(app => app.dailyLimit).length;
-  const appsOverLimit = apps.filter(app => app.isOverLimit).length;
+  const categoryUsage = getCategoryUsage(currentDayUsage);
+  const isCategoryOverBudget = (limit?: CategoryLimit): boolean =>
+    !!limit?.dailyLimit && (categoryUsage[limit.category] || 0) > limit.dailyLimit * CONSTANTS.TIME.MINUTE;
+
+  const totalAppsWithLimits =
+    apps.filter(app => app.dailyLimit).length + categoryLimits.filter(limit => limit.dailyLimit).length;
+  const appsOverLimit =
+    apps.filter(app => app.isOverLimit).length + categoryLimits.filter(isCategoryOverBudget).length;
+
+  const query = searchQuery.trim().toLowerCase();
+  const visibleApps = apps.filter(app =>
+    (!categoryFilter || app.category === categoryFilter) &&
+    (!query || app.appName.toLowerCase().includes(query) || app.packageName.toLowerCase().includes(query))
+  );
+  const categoryGroups = CATEGORIES
+    .filter(category => !categoryFilter || category === categoryFilter)
+    .map(category => ({
+      category,
+      apps: visibleApps.filter(app => app.category === category),
+      limit: categoryLimits.find(limit => limit.category === category),
+      timeSpent: categoryUsage[category] || 0,
+    }))
+    // Budgeted categories stay visible even with no apps installed yet
+    .filter(group => group.apps.length > 0 || (!query && group.limit));
+
+  // Keep the downtime picker short: apps in use, restricted or well known
+  const downtimeApps = apps.filter(app =>
+    app.todayUsage > 0 ||
+    app.isBlocked ||
+    app.dailyLimit ||
+    CONSTANTS.POPULAR_APPS.some(known => known.packageName === app.packageName)
+  );
+
+  const renderAppItem = (app: AppWithUsage) => (
+    <List.Item
+      key={app.packageName}
+      title={app.appName}
+      description={
+        <View style={styles.appDescription}>
+          <Chip
+            compact
+            icon={app.isCategoryOverridden ? 'pencil' : 'tag-outline'}
+            onPress={() => setCategoryApp(app)}
+            style={styles.categoryChip}
+            textStyle={styles.categoryChipText}
+          >
+            {app.category}
+          </Chip>
+          <Text style={[styles.usageText, { color: getUsageColor(app) }]}>
+            Today: {app.todayUsage} min
+          </Text>
+          {app.dailyLimit && (
+            <Text style={styles.limitText}>
+              Limit: {app.dailyLimit} min
+            </Text>
+          )}
+          {app.isOverLimit && (
+            <Chip size="small" textStyle={styles.overLimitChip}>
+              Over Limit
+            </Chip>
+          )}
+        </View>
+      }
+      left={(props) => (
+        icons[app.packageName] ? (
+          <Image
+            source={{ uri: icons[app.packageName] }}
+            style={[styles.appIcon, { borderColor: getUsageColor(app) }]}
+          />
+        ) : (
+          <Icon 
+            {...props} 
+            name={getAppIcon(app.packageName)} 
+            size={32} 
+            color={getUsageColor(app)}
+          />
+        )
+      )}
+      right={() => (
+        <View style={styles.appControls}>
+          <Switch
+            value={app.isBlocked}
+            onValueChange={() => handleToggleBlock(app)}
+            thumbColor={app.isBlocked ? '#FF5722' : '#4CAF50'}
+            trackColor={{ false: '#E0E0E0', true: '#FFCDD2' }}
+          />
+          <Button
+            mode="outlined"
+            compact
+            onPress={() => handleSetLimit(app)}
+            style={styles.limitButton}
+            labelStyle={styles.limitButtonLabel}
+          >
+            {app.dailyLimit ? 'Edit' : 'Limit'}
+          </Button>
+        </View>
+      )}
+      style={[
+        styles.appItem,
+        app.isBlocked && styles.blockedAppItem,
+        app.isOverLimit && styles.overLimitAppItem,
+      ]}
+    />
+  );
 
   return (
     <ScrollView
@@ -240,63 +489,136 @@ const AppManagementScreen: React.FC = () => {
       {/* Apps List */}
       <Card style={styles.card}>
         <Card.Content>
-          <Title style={styles.cardTitle}>Popular Apps</Title>
+          <Title style={styles.cardTitle}>Apps ({apps.length})</Title>
+
+          <Searchbar
+            placeholder="Search apps"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            style={styles.searchbar}
+          />
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.filterRow}>
+            <Chip
+              selected={!categoryFilter}
+              onPress={() => setCategoryFilter(null)}
+              style={styles.filterChip}
+            >
+              All
+            </Chip>
+            {CATEGORIES.map(category => (
+              <Chip
+                key={category}
+                selected={categoryFilter === category}
+                onPress={() => setCategoryFilter(categoryFilter === category ? null : category)}
+                style={styles.filterChip}
+              >
+                {category}
+              </Chip>
+            ))}
+          </ScrollView>
+
+          {visibleApps.length === 0 && (
+            <Paragraph style={styles.permissionText}>No apps match your search.</Paragraph>
+          )}
           
-          {apps.map((app) => (
-            <List.Item
-              key={app.packageName}
-              title={app.appName}
+          {categoryGroups.map(group => (
+            <List.Accordion
+              key={group.category}
+              title={`${group.category} (${group.apps.length})`}
               description={
-                <View style={styles.appDescription}>
-                  <Text style={[styles.usageText, { color: getUsageColor(app) }]}>
-                    Today: {app.todayUsage} min
+                <View style={styles.groupDescription}>
+                  <Text style={styles.limitText}>
+                    {formatTime(group.timeSpent)} today
+                    {group.limit?.dailyLimit ? ` of ${group.limit.dailyLimit} min` : ''}
+                    {group.limit?.isBlocked ? ' · Blocked' : ''}
                   </Text>
-                  {app.dailyLimit && (
-                    <Text style={styles.limitText}>
-                      Limit: {app.dailyLimit} min
-                    </Text>
-                  )}
-                  {app.isOverLimit && (
-                    <Chip size="small" textStyle={styles.overLimitChip}>
-                      Over Limit
-                    </Chip>
+                  {!!group.limit?.dailyLimit && (
+                    <ProgressBar
+                      progress={Math.min(1, group.timeSpent / (group.limit.dailyLimit * CONSTANTS.TIME.MINUTE))}
+                      color={isCategoryOverBudget(group.limit) ? '#FF5722' : '#4CAF50'}
+                      style={styles.groupProgress}
+                    />
                   )}
                 </View>
               }
+              expanded={!!query || !!expandedCategories[group.category]}
+              onPress={() =>
+                setExpandedCategories(current => ({ ...current, [group.category]: !current[group.category] }))
+              }
               left={(props) => (
-                <Icon 
-                  {...props} 
-                  name={getAppIcon(app.packageName)} 
-                  size={32} 
-                  color={getUsageColor(app)}
+                <List.Icon
+                  {...props}
+                  icon={group.limit?.isBlocked ? 'block-helper' : 'folder-outline'}
+                  color={group.limit?.isBlocked || isCategoryOverBudget(group.limit) ? '#FF5722' : props.color}
+                />
+              )}
+              style={styles.groupHeader}
+            >
+              <View style={styles.groupControls}>
+                <Text style={styles.limitText}>Block all</Text>
+                <Switch
+                  value={!!group.limit?.isBlocked}
+                  onValueChange={() => handleToggleCategoryBlock(group.category)}
+                  thumbColor={group.limit?.isBlocked ? '#FF5722' : '#4CAF50'}
+                  trackColor={{ false: '#E0E0E0', true: '#FFCDD2' }}
+                />
+                <Button
+                  mode="outlined"
+                  compact
+                  onPress={() => handleSetCategoryLimit(group.category)}
+                  style={styles.limitButton}
+                  labelStyle={styles.limitButtonLabel}
+                >
+                  {group.limit?.dailyLimit ? 'Edit Budget' : 'Set Budget'}
+                </Button>
+              </View>
+              {group.apps.map(renderAppItem)}
+            </List.Accordion>
+          ))}
+        </Card.Content>
+      </Card>
+
+      {/* Downtime */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <Title style={styles.cardTitle}>Downtime</Title>
+          <Paragraph style={styles.permissionText}>
+            Pause apps at set times, like bedtime or work hours. Respecting downtime earns bonus tokens.
+          </Paragraph>
+
+          {downtimeSchedules.map(schedule => (
+            <List.Item
+              key={schedule.id}
+              title={schedule.name}
+              description={describeDowntime(schedule)}
+              descriptionNumberOfLines={2}
+              onPress={() => handleEditDowntime(schedule)}
+              left={(props) => (
+                <Icon
+                  {...props}
+                  name={schedule.strictness === 'strict' ? 'lock-clock' : 'weather-night'}
+                  size={28}
+                  color={schedule.enabled ? '#6200EE' : '#BDBDBD'}
                 />
               )}
               right={() => (
-                <View style={styles.appControls}>
-                  <Switch
-                    value={app.isBlocked}
-                    onValueChange={() => handleToggleBlock(app)}
-                    thumbColor={app.isBlocked ? '#FF5722' : '#4CAF50'}
-                    trackColor={{ false: '#E0E0E0', true: '#FFCDD2' }}
-                  />
-                  <Button
-                    mode="outlined"
-                    compact
-                    onPress={() => handleSetLimit(app)}
-                    style={styles.limitButton}
-                    labelStyle={styles.limitButtonLabel}
-                  >
-                    {app.dailyLimit ? 'Edit' : 'Limit'}
-                  </Button>
-                </View>
+                <Switch
+                  value={schedule.enabled}
+                  onValueChange={enabled => updateDowntimeSchedule(schedule.id, { enabled })}
+                />
               )}
-              style={[
-                styles.appItem,
-                app.isBlocked && styles.blockedAppItem,
-                app.isOverLimit && styles.overLimitAppItem,
-              ]}
+              style={styles.appItem}
             />
           ))}
+
+          <Button
+            mode="outlined"
+            icon="plus"
+            onPress={() => handleEditDowntime(null)}
+            style={styles.actionButton}
+          >
+            Add Downtime
+          </Button>
         </Card.Content>
       </Card>
 
@@ -311,22 +633,20 @@ const AppManagementScreen: React.FC = () => {
             onPress={() => {
               Alert.alert(
                 'Block All Social Media',
-                'This will block Instagram, Facebook, Twitter, TikTok, and Snapchat',
+                'This will block every app in the Social Media category',
                 [
                   { text: 'Cancel', style: 'cancel' },
                   {
                     text: 'Block All',
                     style: 'destructive',
                     onPress: () => {
-                      const socialApps = ['com.instagram.android', 'com.facebook.katana', 
-                                        'com.twitter.android', 'com.zhiliaoapp.musically', 
-                                        'com.snapchat.android'];
-                      socialApps.forEach(packageName => {
-                        const app = apps.find(a => a.packageName === packageName);
-                        if (app && !app.isBlocked) {
-                          handleToggleBlock(app);
-                        }
-                      });
+                      apps
+                        .filter(app => app.category === CONSTANTS.SCREEN_TIME_CATEGORIES.SOCIAL_MEDIA)
+                        .forEach(app => {
+                          if (!app.isBlocked) {
+                            handleToggleBlock(app);
+                          }
+                        });
                     }
                   }
                 ]
@@ -349,11 +669,9 @@ const AppManagementScreen: React.FC = () => {
                   {
                     text: 'Set Limits',
                     onPress: () => {
-                      const entertainmentApps = ['com.instagram.android', 'com.zhiliaoapp.musically', 
-                                               'com.google.android.youtube', 'com.netflix.mediaclient'];
-                      entertainmentApps.forEach(packageName => {
-                        const app = apps.find(a => a.packageName === packageName);
-                        if (app) {
+                      apps
+                        .filter(app => app.category === CONSTANTS.SCREEN_TIME_CATEGORIES.ENTERTAINMENT)
+                        .forEach(app => {
                           const blockedApp: BlockedApp = {
                             packageName: app.packageName,
                             appName: app.appName,
@@ -361,8 +679,7 @@ const AppManagementScreen: React.FC = () => {
                             dailyLimit: 30,
                           };
                           addBlockedApp(blockedApp);
-                        }
-                      });
+                        });
                       setSnackbarMessage('30-minute limits set for entertainment apps');
                       setSnackbarVisible(true);
                     }
@@ -417,63 +734,57 @@ const AppManagementScreen: React.FC = () => {
           
           <List.Item
             title="Usage Access"
-            description="Monitor app usage time"
+            description={usageAccess === 'granted' ? 'Granted' : 'Monitor app usage time'}
             left={(props) => <Icon {...props} name="chart-timeline" />}
             right={(props) => (
               <Button
                 mode="outlined"
                 compact
-                onPress={() => {
-                  Alert.alert(
-                    'Usage Access Permission',
-                    'Go to Settings > Apps > Special Access > Usage Access and enable FOOM',
-                    [{ text: 'OK' }]
-                  );
-                }}
+                disabled={usageAccess === 'granted'}
+                onPress={() => usageAccessService.openSettings()}
               >
-                Grant
+                {usageAccess === 'granted' ? 'Granted' : 'Grant'}
               </Button>
             )}
           />
           
           <List.Item
             title="Display Over Other Apps"
-            description="Show blocking overlay"
+            description={blockerSetup.overlayAllowed ? 'Granted' : 'Show blocking overlay'}
             left={(props) => <Icon {...props} name="layers" />}
             right={(props) => (
               <Button
                 mode="outlined"
                 compact
-                onPress={() => {
-                  Alert.alert(
-                    'Display Over Other Apps',
-                    'Go to Settings > Apps > FOOM > Advanced and enable "Display over other apps"',
-                    [{ text: 'OK' }]
-                  );
-                }}
+                disabled={blockerSetup.overlayAllowed}
+                onPress={() => openOverlaySettings()}
               >
-                Grant
+                {blockerSetup.overlayAllowed ? 'Granted' : 'Grant'}
               </Button>
             )}
           />
           
           <List.Item
             title="Accessibility Service"
-            description="Advanced app blocking"
+            description={blockerSetup.serviceEnabled ? 'Enabled' : 'Detect when a blocked app opens'}
             left={(props) => <Icon {...props} name="accessibility" />}
             right={(props) => (
               <Button
                 mode="outlined"
                 compact
+                disabled={blockerSetup.serviceEnabled}
                 onPress={() => {
                   Alert.alert(
                     'Accessibility Service',
-                    'Go to Settings > Accessibility > FOOM and enable the service',
-                    [{ text: 'OK' }]
+                    'Find "FOOM App Blocker" under Accessibility > Installed apps and turn it on. FOOM only sees which app is open, never what is on screen.',
+                    [
+                      { text: 'Cancel', style: 'cancel' },
+                      { text: 'Open Settings', onPress: () => openAccessibilitySettings() },
+                    ]
                   );
                 }}
               >
-                Grant
+                {blockerSetup.serviceEnabled ? 'Enabled' : 'Grant'}
               </Button>
             )}
           />
@@ -483,10 +794,12 @@ const AppManagementScreen: React.FC = () => {
       {/* Limit Setting Dialog */}
       <Portal>
         <Dialog visible={showLimitDialog} onDismiss={() => setShowLimitDialog(false)}>
-          <Dialog.Title>Set Daily Limit</Dialog.Title>
+          <Dialog.Title>{selectedCategory ? 'Set Category Budget' : 'Set Daily Limit'}</Dialog.Title>
           <Dialog.Content>
             <Paragraph>
-              Set a daily usage limit for {selectedApp?.appName}
+              {selectedCategory
+                ? `Set a daily budget shared by all ${selectedCategory} apps, including ones you install later`
+                : `Set a daily usage limit for ${selectedApp?.appName}`}
             </Paragraph>
             <TextInput
               label="Daily limit (minutes)"
@@ -496,11 +809,14 @@ const AppManagementScreen: React.FC = () => {
               mode="outlined"
               style={styles.dialogInput}
             />
-            {selectedApp?.dailyLimit && (
+            {(selectedApp?.dailyLimit || categoryLimits.find(c => c.category === selectedCategory)?.dailyLimit) && (
               <Button
                 mode="text"
                 onPress={() => {
-                  if (selectedApp) {
+                  const categoryLimit = categoryLimits.find(c => c.category === selectedCategory);
+                  if (categoryLimit) {
+                    handleRemoveCategoryLimit(categoryLimit);
+                  } else if (selectedApp) {
                     handleRemoveLimit(selectedApp);
                   }
                   setShowLimitDialog(false);
@@ -520,6 +836,40 @@ const AppManagementScreen: React.FC = () => {
         </Dialog>
       </Portal>
 
+      <DowntimeScheduleDialog
+        visible={showDowntimeDialog}
+        schedule={selectedSchedule}
+        apps={downtimeApps}
+        onDismiss={() => setShowDowntimeDialog(false)}
+        onSave={handleSaveDowntime}
+        onDelete={handleDeleteDowntime}
+      />
+
+      {/* Category Dialog */}
+      <Portal>
+        <Dialog visible={!!categoryApp} onDismiss={() => setCategoryApp(null)}>
+          <Dialog.Title>Category for {categoryApp?.appName}</Dialog.Title>
+          <Dialog.ScrollArea>
+            <ScrollView>
+              <RadioButton.Group
+                value={categoryApp?.category || ''}
+                onValueChange={category => handleSetCategory(category)}
+              >
+                {CATEGORIES.map(category => (
+                  <RadioButton.Item key={category} label={category} value={category} />
+                ))}
+              </RadioButton.Group>
+            </ScrollView>
+          </Dialog.ScrollArea>
+          <Dialog.Actions>
+            {categoryApp?.isCategoryOverridden && (
+              <Button onPress={() => handleSetCategory(null)}>Use Automatic</Button>
+            )}
+            <Button onPress={() => setCategoryApp(null)}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       <Snackbar
         visible={snackbarVisible}
         onDismiss={() => setSnackbarVisible(false)}
@@ -602,6 +952,48 @@ const styles = StyleSheet.create({
   overLimitAppItem: {
     backgroundColor: '#FFF3E0',
   },
+  searchbar: {
+    marginBottom: 8,
+    elevation: 0,
+  },
+  filterRow: {
+    marginBottom: 12,
+  },
+  filterChip: {
+    marginRight: 6,
+  },
+  appIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    borderWidth: 2,
+    alignSelf: 'center',
+    marginLeft: 8,
+  },
+  categoryChip: {
+    marginRight: 8,
+    height: 26,
+  },
+  categoryChipText: {
+    fontSize: 10,
+  },
+  groupHeader: {
+    paddingVertical: 4,
+  },
+  groupDescription: {
+    marginTop: 4,
+  },
+  groupProgress: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 4,
+  },
+  groupControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    paddingVertical: 4,
+  },
   appDescription: {
     flexDirection: 'row',
     alignItems: 'center',
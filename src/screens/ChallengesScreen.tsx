@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import {
+  Card,
+  Title,
+  Paragraph,
+  Text,
+  Chip,
+  ProgressBar,
+  Button,
+} from 'react-native-paper';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import {
+  ChallengeInstance,
+  ChallengeStatus,
+  CustomChallengeParams,
+  useChallengeStore,
+} from '../store/challengeStore';
+import { useScreenTimeStore } from '../store/screenTimeStore';
+import { useWalletStore } from '../store/walletStore';
+import { usageCollectionService } from '../services/usageCollection';
+import { challengeService } from '../services/challenges';
+import { getAppName } from '../services/usageSources';
+import CustomChallengeDialog from '../components/CustomChallengeDialog';
+import { CONSTANTS } from '../utils/constants';
+import { getTodayDateString, shiftDateString } from '../utils/dates';
+import { formatDateTime } from '../utils/helpers';
+
+const STATUS_FILTERS: { status: ChallengeStatus; label: string; icon: string }[] = [
+  { status: 'active', label: 'Active', icon: 'flag-checkered' },
+  { status: 'completed', label: 'Completed', icon: 'trophy' },
+  { status: 'expired', label: 'Expired', icon: 'timer-off-outline' },
+  { status: 'failed', label: 'Failed', icon: 'close-circle-outline' },
+];
+
+const PERIOD_LABELS: Record<ChallengeInstance['period'], string> = {
+  daily: 'Daily challenge',
+  weekly: 'Weekly challenge',
+  custom: 'Your challenge',
+};
+
+const MAX_APP_CHOICES = 12;
+
+const ChallengesScreen: React.FC = () => {
+  const { challenges } = useChallengeStore();
+  const { dailyScreenTime } = useScreenTimeStore();
+  const { tokenBalance } = useWalletStore();
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ChallengeStatus>('active');
+  const [showCustomDialog, setShowCustomDialog] = useState(false);
+
+  // Offer the apps used most over the last week, then well-known ones
+  const appChoices = useMemo(() => {
+    const weekAgo = shiftDateString(getTodayDateString(), -7);
+    const totals: Record<string, number> = {};
+    Object.values(dailyScreenTime)
+      .filter(record => record.date > weekAgo)
+      .forEach(record =>
+        record.apps.forEach(app => {
+          totals[app.packageName] = (totals[app.packageName] || 0) + app.timeSpent;
+        })
+      );
+
+    const used = Object.keys(totals).sort((a, b) => totals[b] - totals[a]);
+    const known = CONSTANTS.POPULAR_APPS.map(app => app.packageName).filter(packageName => !totals[packageName]);
+    return [...used, ...known]
+      .slice(0, MAX_APP_CHOICES)
+      .map(packageName => ({ packageName, appName: getAppName(packageName) }));
+  }, [dailyScreenTime]);
+
+  useEffect(() => {
+    challengeService.refresh();
+  }, []);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await usageCollectionService.collectToday();
+    } catch (error) {
+      console.error('Error refreshing challenges:', error);
+    }
+    setRefreshing(false);
+  };
+
+  const handleCreateCustom = (params: CustomChallengeParams, stake: number) => {
+    try {
+      const challenge = challengeService.createCustom(params, stake);
+      setShowCustomDialog(false);
+      setStatusFilter('active');
+      Alert.alert('Challenge set', `${challenge.title} starts tomorrow. ${stake} tokens are on the line.`);
+    } catch (error: any) {
+      Alert.alert('Could not create challenge', error.message || 'Please try again.');
+    }
+  };
+
+  const visibleChallenges = challenges
+    .filter(challenge => challenge.status === statusFilter)
+    // Active ones by what ends soonest; finished ones newest first
+    .sort((a, b) => (statusFilter === 'active' ? a.expiresAt - b.expiresAt : b.expiresAt - a.expiresAt));
+
+  const renderChallenge = (challenge: ChallengeInstance) => {
+    const progress = Math.min(1, challenge.currentValue / challenge.targetValue);
+
+    return (
+      <Card key={challenge.instanceId} style={styles.card}>
+        <Card.Content>
+          <View style={styles.challengeHeader}>
+            <View style={styles.challengeInfo}>
+              <Text style={styles.challengeTitle}>{challenge.title}</Text>
+              <Text style={styles.challengePeriod}>
+                {PERIOD_LABELS[challenge.period]}
+                {challenge.stake ? ` · ${challenge.stake} tokens staked` : ''}
+              </Text>
+            </View>
+            <Text style={styles.challengeReward}>
+              +{challenge.status === 'completed' ? challenge.tokensAwarded : challenge.reward}
+            </Text>
+          </View>
+          <Paragraph style={styles.challengeDescription}>{challenge.description}</Paragraph>
+          <ProgressBar
+            progress={progress}
+            color={
+              challenge.status === 'expired'
+                ? '#BDBDBD'
+                : challenge.status === 'failed'
+                  ? '#F44336'
+                  : challenge.status === 'completed'
+                    ? '#4CAF50'
+                    : '#6200EE'
+            }
+            style={styles.progressBar}
+          />
+          <View style={styles.challengeFooter}>
+            <Text style={styles.footerText}>
+              {challenge.currentValue}/{challenge.targetValue}
+            </Text>
+            <Text style={styles.footerText}>
+              {challenge.status === 'completed' && challenge.completedAt
+                ? `Completed ${formatDateTime(challenge.completedAt)}`
+                : challenge.status === 'expired'
+                  ? `Expired ${formatDateTime(challenge.expiresAt)}`
+                  : challenge.status === 'failed'
+                    ? 'Stake forfeited'
+                    : challenge.startsAt > Date.now()
+                      ? `Starts ${formatDateTime(challenge.startsAt)}`
+                      : `Ends ${formatDateTime(challenge.expiresAt)}`}
+            </Text>
+          </View>
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      <View style={styles.header}>
+        <Title style={styles.title}>Challenges</Title>
+        <Paragraph style={styles.subtitle}>
+          Complete challenges to earn bonus tokens
+        </Paragraph>
+        <Button
+          mode="contained"
+          icon="plus"
+          onPress={() => setShowCustomDialog(true)}
+          style={styles.newButton}
+        >
+          New Challenge
+        </Button>
+      </View>
+
+      <View style={styles.filters}>
+        {STATUS_FILTERS.map(filter => (
+          <Chip
+            key={filter.status}
+            icon={filter.icon}
+            selected={statusFilter === filter.status}
+            onPress={() => setStatusFilter(filter.status)}
+            style={styles.filterChip}
+          >
+            {filter.label} ({challenges.filter(challenge => challenge.status === filter.status).length})
+          </Chip>
+        ))}
+      </View>
+
+      {visibleChallenges.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Icon name="trophy-outline" size={64} color="#E0E0E0" />
+          <Text style={styles.emptyStateText}>
+            {statusFilter === 'active' ? 'No active challenges' : `No ${statusFilter} challenges yet`}
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.list}>
+          {visibleChallenges.map(renderChallenge)}
+        </View>
+      )}
+
+      <CustomChallengeDialog
+        visible={showCustomDialog}
+        apps={appChoices}
+        tokenBalance={tokenBalance}
+        onDismiss={() => setShowCustomDialog(false)}
+        onCreate={handleCreateCustom}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 20,
+    paddingTop: 40,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 4,
+  },
+  newButton: {
+    marginTop: 16,
+    alignSelf: 'flex-start',
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  filterChip: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  list: {
+    paddingBottom: 16,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  challengeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  challengeInfo: {
+    flex: 1,
+  },
+  challengeTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  challengePeriod: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  challengeReward: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  challengeDescription: {
+    marginTop: 8,
+  },
+  progressBar: {
+    height: 6,
+    borderRadius: 3,
+    marginTop: 8,
+  },
+  challengeFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  footerText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 12,
+  },
+});
+
+export default ChallengesScreen;
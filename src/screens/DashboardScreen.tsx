@@ -4,6 +4,7 @@ import {
   ScrollView,
   StyleSheet,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import {
   Card,
@@ -14,41 +15,73 @@ import {
   ProgressBar,
   Chip,
   Surface,
+  Banner,
 } from 'react-native-paper';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../auth/AuthContext';
 import { useScreenTimeStore } from '../store/screenTimeStore';
 import { useWalletStore } from '../store/walletStore';
-import { screenTimeService } from '../services/screenTime';
+import { usePermissionStore } from '../store/permissionStore';
+import { useFocusStore } from '../store/focusStore';
+import { useGoalStore } from '../store/goalStore';
+import { useEventCalendarStore } from '../store/eventCalendarStore';
+import { useAchievementStore } from '../store/achievementStore';
+import { usageCollectionService } from '../services/usageCollection';
+import { usageAccessService } from '../services/usageAccess';
+import { goalCoachService } from '../services/goalCoach';
+import { settlementService } from '../services/settlement';
+import { streakFreezeService } from '../services/streakFreeze';
+import { ACHIEVEMENTS } from '../services/achievements';
+import { RewardBreakdown, rewardsEngine } from '../services/rewardsEngine';
 import { formatTime, formatCurrency } from '../utils/helpers';
+import { getGoalHours } from '../utils/goals';
+import { getDayWindow, getTodayDateString } from '../utils/dates';
+import { CONSTANTS } from '../utils/constants';
+import UsageTimeline from '../components/UsageTimeline';
+import StreakHeatmap from '../components/StreakHeatmap';
 
 const DashboardScreen: React.FC = () => {
-  const { userProfile } = useAuth();
+  const { userProfile, updateUserProfile } = useAuth();
   const {
     getTodayScreenTime,
     getWeeklyScreenTime,
-    updateCurrentUsage,
+    currentDaySessions,
+    getHourlyUsage,
+    dailyScreenTime,
+    streak,
   } = useScreenTimeStore();
   const {
     tokenBalance,
     getTotalPortfolioValue,
     getRecentTransactions,
   } = useWalletStore();
+  const { usageAccess } = usePermissionStore();
+  const { activeSession } = useFocusStore();
+  const { proposal: goalProposal } = useGoalStore();
+  // Subscribed so a fetched calendar shows up without a restart
+  const { remoteEvents } = useEventCalendarStore();
+  const { unlocked } = useAchievementStore();
+  const navigation = useNavigation();
   
   const [refreshing, setRefreshing] = useState(false);
   const [todayScreenTime, setTodayScreenTime] = useState(0);
   const [weeklyAverage, setWeeklyAverage] = useState(0);
+  const [tokensEarnedToday, setTokensEarnedToday] = useState(0);
+  const [rewardBreakdown, setRewardBreakdown] = useState<RewardBreakdown[]>([]);
 
   const loadScreenTimeData = async () => {
     try {
-      const usage = await screenTimeService.getTodayUsage();
-      updateCurrentUsage(usage);
+      await usageCollectionService.collectToday();
+      goalCoachService.evaluate();
       
       const todayData = getTodayScreenTime();
-      const weeklyData = getWeeklyScreenTime();
+      const weeklyData = getWeeklyScreenTime().filter(day => !day.unmeasured);
       
       if (todayData) {
         setTodayScreenTime(todayData.totalTime);
+        setTokensEarnedToday(todayData.tokensEarned);
+        setRewardBreakdown(todayData.rewardBreakdown || []);
       }
       
       if (weeklyData.length > 0) {
@@ -62,7 +95,39 @@ const DashboardScreen: React.FC = () => {
 
   useEffect(() => {
     loadScreenTimeData();
-  }, []);
+  }, [usageAccess]);
+
+  const handleAcceptGoal = async () => {
+    if (!goalProposal) return;
+
+    try {
+      await updateUserProfile({ screenTimeGoal: goalProposal.proposedGoal });
+      goalCoachService.accept();
+      await loadScreenTimeData();
+    } catch (error) {
+      console.error('Error applying goal proposal:', error);
+    }
+  };
+
+  const handleBuyFreeze = () => {
+    Alert.alert(
+      'Buy Streak Freeze',
+      `Spend ${CONSTANTS.STREAK_FREEZE.PRICE_TOKENS} tokens to protect your streak on a day you miss your goal?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Buy',
+          onPress: () => {
+            try {
+              streakFreezeService.purchase();
+            } catch (error: any) {
+              Alert.alert('Streak Freeze', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -70,11 +135,22 @@ const DashboardScreen: React.FC = () => {
     setRefreshing(false);
   };
 
+  const activeEvent = rewardsEngine.calculateEventBonus(
+    new Date(getDayWindow(getTodayDateString()).start),
+    remoteEvents || undefined
+  );
+  const unlockedBadges = ACHIEVEMENTS.filter(achievement => unlocked[achievement.id]).length;
+  const goalHours = getGoalHours(getTodayDateString(), userProfile?.screenTimeGoal);
   const todayScreenTimeHours = todayScreenTime / (1000 * 60 * 60);
   const weeklyAverageHours = weeklyAverage / (1000 * 60 * 60);
-  const tokensEarnedToday = Math.max(0, (8 - todayScreenTimeHours) * 10); // 10 tokens per hour under 8 hours
+  const currentStreak = settlementService.getStreakBefore(getTodayDateString());
   const portfolioValue = getTotalPortfolioValue();
   const recentTransactions = getRecentTransactions(3);
+  const hourlyUsage = getHourlyUsage();
+  const sessionAppNames = currentDaySessions.reduce<Record<string, string>>((names, session) => {
+    names[session.packageName] = session.appName;
+    return names;
+  }, {});
 
   return (
     <ScrollView
@@ -92,6 +168,34 @@ const DashboardScreen: React.FC = () => {
         </Paragraph>
       </View>
 
+      {/* Usage Access Banner */}
+      <Banner
+        visible={usageAccess === 'revoked' || usageAccess === 'denied'}
+        icon="alert-circle"
+        actions={[
+          {
+            label: 'Open Settings',
+            onPress: () => usageAccessService.openSettings(),
+          },
+        ]}
+        style={styles.banner}
+      >
+        {usageAccess === 'revoked'
+          ? "Usage access was turned off. Days FOOM can't measure earn no tokens and count as missed until you enable it again."
+          : 'FOOM needs usage access to track your screen time. Enable FOOM on the Usage Access page in Settings.'}
+      </Banner>
+
+      {/* Seasonal Event Banner */}
+      <Banner
+        visible={!!activeEvent}
+        icon="party-popper"
+        style={[styles.banner, styles.eventBanner]}
+      >
+        {activeEvent
+          ? `${activeEvent.eventName} (x${activeEvent.bonusMultiplier}): ${activeEvent.description}`
+          : ''}
+      </Banner>
+
       {/* Token Balance Card */}
       <Card style={styles.card}>
         <Card.Content>
@@ -116,12 +220,12 @@ const DashboardScreen: React.FC = () => {
           </Text>
           <View style={styles.progressContainer}>
             <ProgressBar 
-              progress={Math.min(todayScreenTimeHours / 8, 1)} 
-              color={todayScreenTimeHours > 8 ? '#FF5722' : '#4CAF50'}
+              progress={Math.min(todayScreenTimeHours / goalHours, 1)} 
+              color={todayScreenTimeHours > goalHours ? '#FF5722' : '#4CAF50'}
               style={styles.progressBar}
             />
             <Text style={styles.progressText}>
-              Goal: Under 8 hours daily
+              Goal: Under {goalHours} hours today
             </Text>
           </View>
           <View style={styles.chipContainer}>
@@ -135,6 +239,77 @@ const DashboardScreen: React.FC = () => {
         </Card.Content>
       </Card>
 
+      {/* Streak */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <Icon name="fire" size={24} color={currentStreak > 0 ? '#FF5722' : '#BDBDBD'} />
+            <Title style={styles.cardTitle}>Streak</Title>
+          </View>
+          <View style={styles.streakRow}>
+            <Text style={styles.streakText}>{currentStreak}</Text>
+            <Paragraph style={styles.streakLabel}>
+              {currentStreak === 1 ? 'day' : 'days'} under goal{'\n'}Best: {streak.longest} days
+            </Paragraph>
+          </View>
+          <StreakHeatmap records={dailyScreenTime} />
+          <View style={styles.freezeRow}>
+            <Icon name="snowflake" size={20} color="#2196F3" />
+            <Text style={styles.freezeText}>
+              {streak.freezeTokens}/{CONSTANTS.STREAK_FREEZE.MAX_HELD} freezes
+            </Text>
+            <Button
+              mode="text"
+              compact
+              onPress={handleBuyFreeze}
+              disabled={streak.freezeTokens >= CONSTANTS.STREAK_FREEZE.MAX_HELD}
+            >
+              Buy ({CONSTANTS.STREAK_FREEZE.PRICE_TOKENS} tokens)
+            </Button>
+          </View>
+        </Card.Content>
+      </Card>
+
+      {/* Goal Coach */}
+      {goalProposal && (
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.cardHeader}>
+              <Icon
+                name={goalProposal.direction === 'tighten' ? 'arrow-down-bold-circle' : 'arrow-up-bold-circle'}
+                size={24}
+                color="#2196F3"
+              />
+              <Title style={styles.cardTitle}>Goal Coach</Title>
+            </View>
+            <Paragraph>{goalProposal.reason}</Paragraph>
+            <Text style={styles.goalChangeText}>
+              Weekdays {goalProposal.currentGoal.weekdayHours}h → {goalProposal.proposedGoal.weekdayHours}h
+            </Text>
+            <Text style={styles.goalChangeText}>
+              Weekends {goalProposal.currentGoal.weekendHours}h → {goalProposal.proposedGoal.weekendHours}h
+            </Text>
+          </Card.Content>
+          <Card.Actions>
+            <Button onPress={() => goalCoachService.decline()}>Not now</Button>
+            <Button mode="contained" onPress={handleAcceptGoal}>
+              Update Goal
+            </Button>
+          </Card.Actions>
+        </Card>
+      )}
+
+      {/* Usage Timeline */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <View style={styles.cardHeader}>
+            <Icon name="chart-timeline-variant" size={24} color="#2196F3" />
+            <Title style={styles.cardTitle}>Today's Timeline</Title>
+          </View>
+          <UsageTimeline buckets={hourlyUsage} appNames={sessionAppNames} />
+        </Card.Content>
+      </Card>
+
       {/* Earnings Card */}
       <Card style={styles.card}>
         <Card.Content>
@@ -145,9 +320,23 @@ const DashboardScreen: React.FC = () => {
           <Text style={styles.earningsText}>
             +{Math.round(tokensEarnedToday)} tokens
           </Text>
-          <Paragraph>
-            Earned by staying under your screen time goal
-          </Paragraph>
+          {rewardBreakdown.length > 0 ? (
+            rewardBreakdown.map((line) => (
+              <View key={`${line.type}-${line.description}`} style={styles.breakdownRow}>
+                <Text style={styles.breakdownDescription}>{line.description}</Text>
+                <Text style={[
+                  styles.breakdownTokens,
+                  { color: line.tokens < 0 ? '#FF5722' : '#4CAF50' }
+                ]}>
+                  {line.tokens > 0 ? '+' : ''}{line.tokens}
+                </Text>
+              </View>
+            ))
+          ) : (
+            <Paragraph>
+              Earned by staying under your screen time goal
+            </Paragraph>
+          )}
         </Card.Content>
       </Card>
 
@@ -186,7 +375,12 @@ const DashboardScreen: React.FC = () => {
                   <Icon 
                     name={
                       transaction.type === 'earned' ? 'plus-circle' : 
-                      transaction.type === 'invested' ? 'trending-up' : 'minus-circle'
+                      transaction.type === 'invested' ? 'trending-up' : 
+                      transaction.type === 'withdrawn' ? 'bank-transfer-out' :
+                      transaction.type === 'unlock' ? 'lock-open-variant' :
+                      transaction.type === 'stake' ? 'hand-coin' :
+                      transaction.type === 'refund' ? 'cash-refund' :
+                      transaction.type === 'adjustment' ? 'scale-balance' : 'minus-circle'
                     } 
                     size={20} 
                     color={transaction.amount > 0 ? '#4CAF50' : '#FF5722'} 
@@ -234,6 +428,22 @@ const DashboardScreen: React.FC = () => {
               View Investments
             </Button>
           </View>
+          <Button 
+            mode="outlined" 
+            icon="target"
+            onPress={() => navigation.navigate('Focus')}
+            style={styles.actionButton}
+          >
+            {activeSession ? 'Focus Session Running' : 'Start Focus Session'}
+          </Button>
+          <Button 
+            mode="outlined" 
+            icon="medal"
+            onPress={() => navigation.navigate('Achievements')}
+            style={styles.actionButton}
+          >
+            Badges ({unlockedBadges}/{ACHIEVEMENTS.length})
+          </Button>
         </Card.Content>
       </Card>
     </ScrollView>
@@ -259,6 +469,13 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  banner: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  eventBanner: {
+    backgroundColor: '#FFF8E1',
+  },
   card: {
     marginHorizontal: 16,
     marginBottom: 16,
@@ -309,6 +526,49 @@ const styles = StyleSheet.create({
     color: '#4CAF50',
     marginVertical: 8,
   },
+  streakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  streakText: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#FF5722',
+    marginRight: 12,
+  },
+  streakLabel: {
+    color: '#666',
+  },
+  freezeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  freezeText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  goalChangeText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  breakdownDescription: {
+    fontSize: 14,
+    color: '#666',
+  },
+  breakdownTokens: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
   portfolioText: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -0,0 +1,408 @@
+import React, { useEffect, useState } from 'react';
+import { View, ScrollView, StyleSheet, Alert } from 'react-native';
+import {
+  Card,
+  Title,
+  Paragraph,
+  Text,
+  Button,
+  Chip,
+  IconButton,
+  List,
+  ProgressBar,
+} from 'react-native-paper';
+import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import { useNavigation } from '@react-navigation/native';
+import { useFocusStore, FocusSession } from '../store/focusStore';
+import { useScreenTimeStore } from '../store/screenTimeStore';
+import { useChallengeStore } from '../store/challengeStore';
+import { focusModeService } from '../services/focusMode';
+import { blockingPolicyService } from '../services/blockingPolicy';
+import { rewardsEngine } from '../services/rewardsEngine';
+import { getAppName } from '../services/usageSources';
+import { CONSTANTS } from '../utils/constants';
+import { formatDateTime } from '../utils/helpers';
+
+const formatCountdown = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / CONSTANTS.TIME.SECOND));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+};
+
+const FocusScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { activeSession, history, allowList } = useFocusStore();
+  const { currentDayUsage } = useScreenTimeStore();
+  const { challenges } = useChallengeStore();
+
+  const [durationMinutes, setDurationMinutes] = useState<number>(CONSTANTS.FOCUS.DEFAULT_DURATION_MINUTES);
+  const [allowedPackages, setAllowedPackages] = useState<string[]>(allowList);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the countdown; the service completes the session itself
+  useEffect(() => {
+    if (!activeSession) return;
+
+    const interval = setInterval(() => setNow(Date.now()), CONSTANTS.TIME.SECOND);
+    return () => clearInterval(interval);
+  }, [activeSession]);
+
+  // Apps to choose from: the well-known ones plus anything used today
+  const candidateApps = [
+    ...CONSTANTS.POPULAR_APPS.map(app => app.packageName),
+    ...currentDayUsage.map(usage => usage.packageName),
+  ].filter((packageName, index, all) => all.indexOf(packageName) === index);
+
+  const toggleAllowed = (packageName: string) => {
+    setAllowedPackages(current =>
+      current.includes(packageName)
+        ? current.filter(allowed => allowed !== packageName)
+        : [...current, packageName]
+    );
+  };
+
+  // A session only earns tokens if other apps are actually shielded
+  const handleStart = async () => {
+    try {
+      if (!(await blockingPolicyService.isEnforcementReady())) {
+        Alert.alert(
+          'Finish Blocker Setup',
+          'FOOM needs the Accessibility Service and Display Over Other Apps permissions to shield other apps before a focus session can start.',
+          [
+            { text: 'Later', style: 'cancel' },
+            { text: 'Set Up', onPress: () => blockingPolicyService.openSetup() },
+          ]
+        );
+        return;
+      }
+
+      focusModeService.start(durationMinutes, allowedPackages);
+      setNow(Date.now());
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to start focus session');
+    }
+  };
+
+  const handleAbandon = () => {
+    Alert.alert(
+      'End Focus Session',
+      'Ending early means no tokens for this session. Are you sure?',
+      [
+        { text: 'Keep Going', style: 'cancel' },
+        {
+          text: 'End Session',
+          style: 'destructive',
+          onPress: () => focusModeService.abandon(),
+        },
+      ]
+    );
+  };
+
+  const completedSessions = history.filter(session => session.status === 'completed');
+  const totalFocusMinutes = completedSessions.reduce((total, session) => total + session.durationMinutes, 0);
+  const totalFocusTokens = completedSessions.reduce((total, session) => total + session.tokensEarned, 0);
+  const focusChallenges = challenges.filter(
+    challenge =>
+      // This day's and week's, whether done or not
+      challenge.expiresAt > now && (challenge.id === 'focus_sprint' || challenge.id === 'deep_work_week')
+  );
+
+  const renderActiveSession = (session: FocusSession) => {
+    const remaining = Math.max(0, session.endsAt - now);
+    const elapsed = session.durationMinutes * CONSTANTS.TIME.MINUTE - remaining;
+
+    return (
+      <Card style={styles.card}>
+        <Card.Content style={styles.activeContent}>
+          <Icon name="target" size={40} color="#6200EE" />
+          <Text style={styles.countdown}>{formatCountdown(remaining)}</Text>
+          <ProgressBar
+            progress={Math.min(1, elapsed / (session.durationMinutes * CONSTANTS.TIME.MINUTE))}
+            color="#6200EE"
+            style={styles.progressBar}
+          />
+          <Paragraph style={styles.activeHint}>
+            Finish to earn {rewardsEngine.calculateFocusReward(session.durationMinutes).tokens} tokens.
+            {session.allowedPackages.length > 0
+              ? ` Allowed: ${session.allowedPackages.map(getAppName).join(', ')}.`
+              : ' All other apps are shielded.'}
+          </Paragraph>
+          <Button mode="outlined" icon="close" onPress={handleAbandon} style={styles.actionButton}>
+            End Session
+          </Button>
+        </Card.Content>
+      </Card>
+    );
+  };
+
+  const renderSetup = () => (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Title style={styles.cardTitle}>Start a Session</Title>
+
+        <Text style={styles.sectionLabel}>Length</Text>
+        <View style={styles.chipRow}>
+          {CONSTANTS.FOCUS.DURATION_OPTIONS.map(minutes => (
+            <Chip
+              key={minutes}
+              selected={durationMinutes === minutes}
+              onPress={() => setDurationMinutes(minutes)}
+              style={styles.chip}
+            >
+              {minutes} min
+            </Chip>
+          ))}
+        </View>
+
+        <Text style={styles.sectionLabel}>Allowed apps</Text>
+        <View style={styles.chipRow}>
+          {candidateApps.map(packageName => (
+            <Chip
+              key={packageName}
+              selected={allowedPackages.includes(packageName)}
+              onPress={() => toggleAllowed(packageName)}
+              style={styles.chip}
+            >
+              {getAppName(packageName)}
+            </Chip>
+          ))}
+        </View>
+
+        <Paragraph style={styles.hint}>
+          Every other app is shielded until the timer ends. Completing the session earns{' '}
+          {rewardsEngine.calculateFocusReward(durationMinutes).tokens} tokens.
+        </Paragraph>
+
+        <Button mode="contained" icon="play" onPress={handleStart} style={styles.actionButton}>
+          Start Focus
+        </Button>
+      </Card.Content>
+    </Card>
+  );
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <IconButton icon="arrow-left" onPress={() => navigation.goBack()} style={styles.backButton} />
+        <Title style={styles.title}>Focus</Title>
+        <Paragraph style={styles.subtitle}>
+          Put distractions away and earn bonus tokens
+        </Paragraph>
+      </View>
+
+      {activeSession ? renderActiveSession(activeSession) : renderSetup()}
+
+      {/* Stats */}
+      <View style={styles.summaryRow}>
+        <Card style={styles.summaryCard}>
+          <Card.Content style={styles.summaryContent}>
+            <Text style={styles.summaryNumber}>{completedSessions.length}</Text>
+            <Text style={styles.summaryLabel}>Sessions</Text>
+          </Card.Content>
+        </Card>
+        <Card style={styles.summaryCard}>
+          <Card.Content style={styles.summaryContent}>
+            <Text style={styles.summaryNumber}>{totalFocusMinutes}</Text>
+            <Text style={styles.summaryLabel}>Minutes</Text>
+          </Card.Content>
+        </Card>
+        <Card style={styles.summaryCard}>
+          <Card.Content style={styles.summaryContent}>
+            <Text style={styles.summaryNumber}>{totalFocusTokens}</Text>
+            <Text style={styles.summaryLabel}>Tokens</Text>
+          </Card.Content>
+        </Card>
+      </View>
+
+      {/* Challenges */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <Title style={styles.cardTitle}>Focus Challenges</Title>
+          {focusChallenges.map(challenge => (
+            <View key={challenge.instanceId} style={styles.challenge}>
+              <View style={styles.challengeHeader}>
+                <Text style={styles.challengeTitle}>{challenge.title}</Text>
+                <Text style={styles.challengeReward}>+{challenge.reward}</Text>
+              </View>
+              <Text style={styles.challengeDescription}>
+                {challenge.description} ({challenge.currentValue}/{challenge.targetValue})
+              </Text>
+              <ProgressBar
+                progress={challenge.currentValue / challenge.targetValue}
+                color={challenge.isCompleted ? '#4CAF50' : '#6200EE'}
+                style={styles.progressBar}
+              />
+            </View>
+          ))}
+        </Card.Content>
+      </Card>
+
+      {/* History */}
+      <Card style={[styles.card, styles.lastCard]}>
+        <Card.Content>
+          <Title style={styles.cardTitle}>History</Title>
+          {history.length === 0 ? (
+            <Paragraph style={styles.hint}>Your finished sessions will show up here.</Paragraph>
+          ) : (
+            history.map(session => (
+              <List.Item
+                key={session.id}
+                title={`${session.durationMinutes} min session`}
+                description={`${formatDateTime(session.startedAt)} · ${
+                  session.status === 'completed' ? 'Completed' : 'Abandoned'
+                }`}
+                left={(props) => (
+                  <Icon
+                    {...props}
+                    name={session.status === 'completed' ? 'check-circle' : 'close-circle'}
+                    size={28}
+                    color={session.status === 'completed' ? '#4CAF50' : '#FF5722'}
+                  />
+                )}
+                right={() => (
+                  <Text style={styles.historyTokens}>
+                    {session.tokensEarned > 0 ? `+${session.tokensEarned}` : '—'}
+                  </Text>
+                )}
+              />
+            ))
+          )}
+        </Card.Content>
+      </Card>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 20,
+    paddingTop: 40,
+  },
+  backButton: {
+    marginLeft: -8,
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginTop: 4,
+  },
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    elevation: 4,
+  },
+  lastCard: {
+    marginBottom: 32,
+  },
+  cardTitle: {
+    fontSize: 18,
+    marginBottom: 12,
+  },
+  activeContent: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  countdown: {
+    fontSize: 56,
+    fontWeight: 'bold',
+    color: '#6200EE',
+    marginVertical: 12,
+  },
+  progressBar: {
+    height: 8,
+    borderRadius: 4,
+    marginTop: 8,
+  },
+  activeHint: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 16,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+  actionButton: {
+    marginTop: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    marginHorizontal: 4,
+    elevation: 2,
+  },
+  summaryContent: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  summaryNumber: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  challenge: {
+    marginBottom: 16,
+  },
+  challengeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  challengeTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  challengeReward: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  challengeDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  historyTokens: {
+    alignSelf: 'center',
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+});
+
+export default FocusScreen;
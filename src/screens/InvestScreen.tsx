@@ -26,11 +26,12 @@ import { useWalletStore, Investment } from '../store/walletStore';
 import { 
   getMMFOptions, 
   formatCurrency, 
-  tokensToKES, 
   validateInvestmentAmount,
   generateTransactionRef,
   calculateMMFReturns 
 } from '../utils/helpers';
+import { achievementService } from '../services/achievements';
+import { asTokens, kesToTokens, tokensToKES } from '../utils/money';
 import { CONSTANTS } from '../utils/constants';
 
 const InvestScreen: React.FC = () => {
@@ -89,7 +90,7 @@ const InvestScreen: React.FC = () => {
       return;
     }
 
-    const tokens = parseInt(investAmount);
+    const tokens = asTokens(parseInt(investAmount));
     if (isNaN(tokens) || tokens <= 0) {
       setSnackbarMessage('Please enter a valid token amount');
       setSnackbarVisible(true);
@@ -118,7 +119,8 @@ const InvestScreen: React.FC = () => {
           onPress: async () => {
             setLoading(true);
             try {
-              investTokens(mmf.name, tokens, kesAmount);
+              investTokens(mmf.name, tokens);
+              achievementService.evaluate();
               setSnackbarMessage(`Successfully invested in ${mmf.name}!`);
               setSnackbarVisible(true);
               setShowInvestDialog(false);
@@ -416,7 +418,7 @@ const InvestScreen: React.FC = () => {
             
             {investAmount && (
               <Text style={styles.conversionText}>
-                ≈ {formatCurrency(tokensToKES(parseInt(investAmount) || 0))}
+                ≈ {formatCurrency(tokensToKES(asTokens(parseInt(investAmount) || 0)))}
               </Text>
             )}
           </Dialog.Content>
@@ -465,6 +467,13 @@ const InvestScreen: React.FC = () => {
                     {selectedInvestment.returnRate.toFixed(2)}%
                   </Text>
                 </View>
+                
+                <View style={styles.withdrawalInfo}>
+                  <Text style={styles.withdrawalLabel}>You Receive:</Text>
+                  <Text style={styles.withdrawalValue}>
+                    {kesToTokens(selectedInvestment.currentValue)} tokens
+                  </Text>
+                </View>
               </View>
             )}
           </Dialog.Content>
@@ -5,6 +5,7 @@ import {
     Dimensions,
     FlatList,
     ListRenderItem,
+    Platform,
 } from 'react-native';
 import {
     Card,
@@ -16,6 +17,8 @@ import {
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useNavigation } from '@react-navigation/native';
 import { useAuthStore } from '../store/authStore';
+import { usePermissionStore } from '../store/permissionStore';
+import { usageAccessService } from '../services/usageAccess';
 
 const { width } = Dimensions.get('window');
 
@@ -25,9 +28,10 @@ interface OnboardingSlide {
     title: string;
     description: string;
     color: string;
+    requiresUsageAccess?: boolean;
 }
 
-const slides: OnboardingSlide[] = [
+const allSlides: OnboardingSlide[] = [
     {
         id: '1',
         icon: 'cellphone-cog',
@@ -56,11 +60,23 @@ const slides: OnboardingSlide[] = [
         description: 'Set app limits, block distracting apps, and develop healthier digital habits.',
         color: '#FF9800',
     },
+    {
+        id: '5',
+        icon: 'chart-timeline',
+        title: 'Allow Usage Access',
+        description: 'FOOM reads how long each app is in the foreground to reward you. Enable FOOM on the Usage Access page in Settings.',
+        color: '#2196F3',
+        requiresUsageAccess: true,
+    },
 ];
 
+// Usage access only exists on Android
+const slides = allSlides.filter(slide => !slide.requiresUsageAccess || Platform.OS === 'android');
+
 const OnboardingScreen: React.FC = () => {
     const navigation = useNavigation();
     const { setOnboardingComplete } = useAuthStore();
+    const { usageAccess } = usePermissionStore();
     const [currentSlide, setCurrentSlide] = useState(0);
     const flatListRef = useRef<FlatList>(null);
 
@@ -77,6 +93,23 @@ const OnboardingScreen: React.FC = () => {
                     <Paragraph style={styles.description}>
                         {item.description}
                     </Paragraph>
+                    {item.requiresUsageAccess && (
+                        usageAccess === 'granted' ? (
+                            <View style={styles.accessGranted}>
+                                <Icon name="check-circle" size={20} color="#4CAF50" />
+                                <Text style={styles.accessGrantedText}>Usage access granted</Text>
+                            </View>
+                        ) : (
+                            <Button
+                                mode="contained"
+                                icon="open-in-new"
+                                onPress={() => usageAccessService.openSettings()}
+                                style={styles.accessButton}
+                            >
+                                {usageAccess === 'settings_opened' ? 'Open Settings Again' : 'Open Usage Access Settings'}
+                            </Button>
+                        )
+                    )}
                 </Card.Content>
             </Card>
         </View>
@@ -120,6 +153,7 @@ const OnboardingScreen: React.FC = () => {
                 ref={flatListRef}
                 data={slides}
                 renderItem={renderSlide}
+                extraData={usageAccess}
                 horizontal
                 pagingEnabled
                 showsHorizontalScrollIndicator={false}
@@ -226,6 +260,20 @@ const styles = StyleSheet.create({
         color: '#666',
         lineHeight: 24,
     },
+    accessButton: {
+        marginTop: 24,
+    },
+    accessGranted: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: 24,
+    },
+    accessGrantedText: {
+        marginLeft: 8,
+        fontSize: 16,
+        color: '#4CAF50',
+        fontWeight: '500',
+    },
     footer: {
         paddingHorizontal: 20,
         paddingBottom: 40,
@@ -16,9 +16,10 @@ import Icon from "react-native-vector-icons/MaterialCommunityIcons";
 import { useAuth } from "../auth/AuthContext";
 import { getMMFOptions, isValidPhoneNumber } from "../utils/helpers";
 import { CONSTANTS } from "../utils/constants";
+import { goalCoachService } from "../services/goalCoach";
 
 const ProfileSetupScreen: React.FC = () => {
-  const { updateUserProfile } = useAuth();
+  const { userProfile, updateUserProfile } = useAuth();
 
   const [formData, setFormData] = useState({
     phoneNumber: "",
@@ -110,13 +111,17 @@ const ProfileSetupScreen: React.FC = () => {
     setLoading(true);
 
     try {
+      const goalHours = parseInt(formData.screenTimeGoal);
+      const screenTimeGoal = { weekdayHours: goalHours, weekendHours: goalHours };
       await updateUserProfile({
         phoneNumber: formData.phoneNumber,
         age: parseInt(formData.age),
         savingsGoal: parseInt(formData.savingsGoal),
         selectedMMF: formData.selectedMMF,
+        screenTimeGoal,
         profileComplete: true,
       });
+      goalCoachService.recordChange(userProfile?.screenTimeGoal || null, screenTimeGoal, "setup");
     } catch (error: any) {
       console.error("Profile setup error:", error);
       setError("Failed to complete profile setup. Please try again.");
@@ -24,14 +24,19 @@ import { useAuth } from '../auth/AuthContext';
 import { useAuthStore } from '../store/authStore';
 import { useScreenTimeStore } from '../store/screenTimeStore';
 import { useWalletStore } from '../store/walletStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { usageCollectionService } from '../services/usageCollection';
+import { goalCoachService } from '../services/goalCoach';
 import { formatCurrency } from '../utils/helpers';
 import { CONSTANTS } from '../utils/constants';
+import { DEFAULT_SCREEN_TIME_GOAL, isValidGoalHours } from '../utils/goals';
 
 const SettingsScreen: React.FC = () => {
   const { user, userProfile, signOut, updateUserProfile } = useAuth();
   const { clearAuthUser } = useAuthStore();
   const { resetDailyData } = useScreenTimeStore();
   const { tokenBalance, getTotalPortfolioValue } = useWalletStore();
+  const { dayStartHour, setDayStartHour } = useSettingsStore();
   
   const [notifications, setNotifications] = useState(true);
   const [screenTimeAlerts, setScreenTimeAlerts] = useState(true);
@@ -40,6 +45,9 @@ const SettingsScreen: React.FC = () => {
   
   const [showProfileDialog, setShowProfileDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showDayStartDialog, setShowDayStartDialog] = useState(false);
+  const [showGoalDialog, setShowGoalDialog] = useState(false);
+  const [goalData, setGoalData] = useState({ weekdayHours: '', weekendHours: '' });
   const [profileData, setProfileData] = useState({
     displayName: userProfile?.displayName || '',
     phoneNumber: userProfile?.phoneNumber || '',
@@ -51,6 +59,56 @@ const SettingsScreen: React.FC = () => {
   const [snackbarMessage, setSnackbarMessage] = useState('');
 
   const portfolioValue = getTotalPortfolioValue();
+  const screenTimeGoal = userProfile?.screenTimeGoal || DEFAULT_SCREEN_TIME_GOAL;
+
+  const formatDayStartHour = (hour: number) => (hour === 0 ? 'Midnight' : `${hour}:00 AM`);
+
+  const handleSelectDayStart = (hour: number) => {
+    setDayStartHour(hour);
+    setShowDayStartDialog(false);
+    setSnackbarMessage(`Your day now starts at ${formatDayStartHour(hour).toLowerCase()}`);
+    setSnackbarVisible(true);
+  };
+
+  const openGoalDialog = () => {
+    setGoalData({
+      weekdayHours: screenTimeGoal.weekdayHours.toString(),
+      weekendHours: screenTimeGoal.weekendHours.toString(),
+    });
+    setShowGoalDialog(true);
+  };
+
+  const handleSaveGoal = async () => {
+    const weekdayHours = parseFloat(goalData.weekdayHours);
+    const weekendHours = parseFloat(goalData.weekendHours);
+    if (!isValidGoalHours(weekdayHours) || !isValidGoalHours(weekendHours)) {
+      setSnackbarMessage(
+        `Goals must be between ${CONSTANTS.MIN_DAILY_SCREEN_TIME_HOURS} and ${CONSTANTS.MAX_DAILY_SCREEN_TIME_HOURS} hours`
+      );
+      setSnackbarVisible(true);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const goal = { weekdayHours, weekendHours };
+      await updateUserProfile({ screenTimeGoal: goal });
+      goalCoachService.recordChange(userProfile?.screenTimeGoal || null, goal, 'settings');
+      // Re-evaluate today's reward against the new goal
+      await usageCollectionService.collectToday();
+
+      setSnackbarMessage('Screen time goal updated');
+      setSnackbarVisible(true);
+      setShowGoalDialog(false);
+    } catch (error) {
+      console.error('Goal update error:', error);
+      setSnackbarMessage('Failed to update goal');
+      setSnackbarVisible(true);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleSignOut = () => {
     Alert.alert(
@@ -250,6 +308,29 @@ const SettingsScreen: React.FC = () => {
         </Card.Content>
       </Card>
 
+      {/* Screen Time */}
+      <Card style={styles.card}>
+        <Card.Content>
+          <Title style={styles.cardTitle}>Screen Time</Title>
+          
+          <List.Item
+            title="Daily Goal"
+            description={`Weekdays ${screenTimeGoal.weekdayHours}h • Weekends ${screenTimeGoal.weekendHours}h`}
+            left={(props) => <Icon {...props} name="target" />}
+            right={(props) => <Icon {...props} name="chevron-right" />}
+            onPress={openGoalDialog}
+          />
+          
+          <List.Item
+            title="Day Starts At"
+            description={`${formatDayStartHour(dayStartHour)} - late-night use counts toward the previous day`}
+            left={(props) => <Icon {...props} name="weather-night" />}
+            right={(props) => <Icon {...props} name="chevron-right" />}
+            onPress={() => setShowDayStartDialog(true)}
+          />
+        </Card.Content>
+      </Card>
+
       {/* Privacy & Security */}
       <Card style={styles.card}>
         <Card.Content>
@@ -443,6 +524,63 @@ const SettingsScreen: React.FC = () => {
         </Dialog>
       </Portal>
 
+      {/* Screen Time Goal Dialog */}
+      <Portal>
+        <Dialog visible={showGoalDialog} onDismiss={() => setShowGoalDialog(false)}>
+          <Dialog.Title>Daily Goal</Dialog.Title>
+          <Dialog.Content>
+            <Paragraph style={styles.dialogHint}>
+              Stay under these hours to earn tokens
+            </Paragraph>
+            <TextInput
+              label="Weekdays (hours)"
+              value={goalData.weekdayHours}
+              onChangeText={(text) => setGoalData({...goalData, weekdayHours: text})}
+              keyboardType="numeric"
+              mode="outlined"
+              style={styles.dialogInput}
+            />
+            
+            <TextInput
+              label="Weekends (hours)"
+              value={goalData.weekendHours}
+              onChangeText={(text) => setGoalData({...goalData, weekendHours: text})}
+              keyboardType="numeric"
+              mode="outlined"
+              style={styles.dialogInput}
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowGoalDialog(false)}>Cancel</Button>
+            <Button mode="contained" onPress={handleSaveGoal} loading={loading}>
+              Save
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
+      {/* Day Start Dialog */}
+      <Portal>
+        <Dialog visible={showDayStartDialog} onDismiss={() => setShowDayStartDialog(false)}>
+          <Dialog.Title>Day Starts At</Dialog.Title>
+          <Dialog.Content>
+            {CONSTANTS.DAY_START_HOUR_OPTIONS.map(hour => (
+              <List.Item
+                key={hour}
+                title={formatDayStartHour(hour)}
+                onPress={() => handleSelectDayStart(hour)}
+                right={(props) =>
+                  hour === dayStartHour ? <Icon {...props} name="check" color="#6200EE" /> : null
+                }
+              />
+            ))}
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setShowDayStartDialog(false)}>Cancel</Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+
       <Snackbar
         visible={snackbarVisible}
         onDismiss={() => setSnackbarVisible(false)}
@@ -525,6 +663,10 @@ const styles = StyleSheet.create({
   dialogInput: {
     marginBottom: 16,
   },
+  dialogHint: {
+    marginBottom: 12,
+    color: '#666',
+  },
 });
 
 export default SettingsScreen;
\ No newline at end of file
@@ -15,9 +15,11 @@ import {
     Chip,
     Surface,
     Button,
+    Banner,
 } from 'react-native-paper';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
 import { useWalletStore } from '../store/walletStore';
+import { useScreenTimeStore } from '../store/screenTimeStore';
 import { formatCurrency, formatDateTime, getTimeAgo } from '../utils/helpers';
 
 const WalletScreen: React.FC = () => {
@@ -29,13 +31,16 @@ const WalletScreen: React.FC = () => {
         investments,
         getRecentTransactions,
         getTotalPortfolioValue,
+        ledgerProblems,
     } = useWalletStore();
+    const { getTodayScreenTime } = useScreenTimeStore();
 
     const [refreshing, setRefreshing] = useState(false);
     const [showAllTransactions, setShowAllTransactions] = useState(false);
 
     const recentTransactions = getRecentTransactions(showAllTransactions ? 50 : 10);
     const portfolioValue = getTotalPortfolioValue();
+    const pendingToday = getTodayScreenTime()?.tokensEarned ?? 0;
 
     const onRefresh = async () => {
         setRefreshing(true);
@@ -50,13 +55,22 @@ const WalletScreen: React.FC = () => {
             case 'invested':
                 return 'trending-up';
             case 'withdrawn':
-                return 'minus-circle';
+                return 'bank-transfer-out';
+            case 'unlock':
+                return 'lock-open-variant';
+            case 'stake':
+                return 'hand-coin';
+            case 'refund':
+                return 'cash-refund';
+            case 'adjustment':
+                return 'scale-balance';
             default:
                 return 'circle';
         }
     };
 
     const getTransactionColor = (amount: number) => {
+        if (amount === 0) return '#2196F3';
         return amount > 0 ? '#4CAF50' : '#FF5722';
     };
 
@@ -74,6 +88,15 @@ const WalletScreen: React.FC = () => {
                 </Paragraph>
             </View>
 
+            {/* Ledger Check Banner */}
+            <Banner
+                visible={ledgerProblems.length > 0}
+                icon="alert-circle"
+                style={styles.banner}
+            >
+                {`Your token history didn't add up when it was loaded, so the balances below may be wrong. Please contact support. (${ledgerProblems.join('; ')})`}
+            </Banner>
+
             {/* Token Balance Card */}
             <Card style={styles.balanceCard}>
                 <Card.Content>
@@ -89,6 +112,10 @@ const WalletScreen: React.FC = () => {
                             <Text style={styles.statValue}>{totalEarned}</Text>
                             <Text style={styles.statLabel}>Total Earned</Text>
                         </View>
+                        <View style={styles.statItem}>
+                            <Text style={styles.statValue}>+{pendingToday}</Text>
+                            <Text style={styles.statLabel}>Earning Today</Text>
+                        </View>
                         <View style={styles.statItem}>
                             <Text style={styles.statValue}>{formatCurrency(totalInvested)}</Text>
                             <Text style={styles.statLabel}>Total Invested</Text>
@@ -252,6 +279,10 @@ const styles = StyleSheet.create({
         color: '#666',
         marginTop: 4,
     },
+    banner: {
+        marginHorizontal: 16,
+        marginBottom: 16,
+    },
     balanceCard: {
         marginHorizontal: 16,
         marginBottom: 16,
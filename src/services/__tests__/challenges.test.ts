@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { challengeService } from '../challenges';
+import { usageCollectionService } from '../usageCollection';
+import { MockUsageSource } from '../usageSources';
+import { ChallengeInstance, useChallengeStore } from '../../store/challengeStore';
+import { AppUsage, UsageSession, useScreenTimeStore } from '../../store/screenTimeStore';
+import { getAccountBalance, useWalletStore } from '../../store/walletStore';
+import { CONSTANTS } from '../../utils/constants';
+import { getDayWindow } from '../../utils/dates';
+import { asTokens } from '../../utils/money';
+
+const { SOCIAL_MEDIA, GAMES } = CONSTANTS.SCREEN_TIME_CATEGORIES;
+const STAKE = 20;
+const BONUS = Math.floor(STAKE * CONSTANTS.CHALLENGES.STAKE_BONUS_RATE);
+
+const source = new MockUsageSource();
+
+// Created on the 6th, so the challenge tracks the 7th
+const CREATED_AT = new Date(2024, 2, 6, 12);
+const DAY = '2024-03-07';
+const at = (hour: number, minute: number = 0) => new Date(2024, 2, 7, hour, minute).getTime();
+
+const createFreeUntilTen = (category: string): ChallengeInstance =>
+  challengeService.createCustom({ template: 'category_free_until', category, untilMinute: 10 * 60 }, STAKE);
+
+const findChallenge = (instanceId: string) =>
+  useChallengeStore.getState().challenges.find(challenge => challenge.instanceId === instanceId)!;
+
+const setCurrentDay = (date: string, sessions: UsageSession[]) =>
+  useScreenTimeStore.setState({ currentUsageDate: date, currentDaySessions: sessions });
+
+const closeDay = (apps: AppUsage[]) =>
+  useScreenTimeStore.getState().updateDailyScreenTime(DAY, {
+    date: DAY,
+    totalTime: apps.reduce((total, app) => total + app.timeSpent, 0),
+    apps,
+    tokensEarned: 0,
+  });
+
+const refreshAt = (timestamp: number) => {
+  jest.setSystemTime(timestamp);
+  return challengeService.refresh(timestamp);
+};
+
+const wallet = () => useWalletStore.getState();
+
+describe('category-free challenges', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: CREATED_AT });
+    useChallengeStore.setState({ challenges: [] });
+    useScreenTimeStore.setState({ dailyScreenTime: {}, currentUsageDate: '', currentDaySessions: [] });
+    useWalletStore.setState({ ledger: [] });
+    wallet().addTokens(asTokens(100));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('holds the stake until the day is decided', () => {
+    const challenge = createFreeUntilTen(SOCIAL_MEDIA);
+
+    expect(challenge.periodStart).toBe(DAY);
+    expect(wallet().tokenBalance).toBe(100 - STAKE);
+    expect(getAccountBalance(wallet().ledger, 'escrow')).toBe(STAKE);
+  });
+
+  it('measures the cutoff from midnight, not from the start of the tracking day', async () => {
+    const challenge = createFreeUntilTen(GAMES);
+    setCurrentDay(DAY, await source.querySessions(getDayWindow(DAY).start, at(9, 30)));
+
+    refreshAt(at(9, 30));
+    expect(findChallenge(challenge.instanceId).status).toBe('active');
+
+    setCurrentDay(DAY, await source.querySessions(getDayWindow(DAY).start, at(10, 30)));
+    refreshAt(at(10, 30));
+
+    expect(findChallenge(challenge.instanceId).status).toBe('completed');
+    expect(wallet().tokenBalance).toBe(100 + BONUS);
+  });
+
+  it('fails as soon as the category is used before the cutoff', () => {
+    const challenge = createFreeUntilTen(SOCIAL_MEDIA);
+    setCurrentDay(DAY, [
+      { packageName: 'com.instagram.android', appName: 'Instagram', startTime: at(8), endTime: at(8, 10) },
+    ]);
+
+    refreshAt(at(8, 30));
+
+    expect(findChallenge(challenge.instanceId).status).toBe('failed');
+    expect(getAccountBalance(wallet().ledger, 'escrow')).toBe(0);
+    expect(wallet().tokenBalance).toBe(100 - STAKE);
+  });
+
+  it('judges a closed day from its stored usage', async () => {
+    const games = createFreeUntilTen(GAMES);
+    const social = createFreeUntilTen(SOCIAL_MEDIA);
+    const { start, end } = getDayWindow(DAY);
+    closeDay([
+      ...(await source.queryUsage(start, end)).filter(app => app.category !== SOCIAL_MEDIA),
+      {
+        packageName: 'com.instagram.android',
+        appName: 'Instagram',
+        category: SOCIAL_MEDIA,
+        timeSpent: 10 * CONSTANTS.TIME.MINUTE,
+        lastUsed: at(9),
+      },
+    ]);
+    setCurrentDay('2024-03-08', []);
+
+    refreshAt(end + CONSTANTS.TIME.HOUR);
+
+    expect(findChallenge(games.instanceId).status).toBe('completed');
+    expect(findChallenge(social.instanceId).status).toBe('failed');
+  });
+
+  it('returns the stake when there is no usage to judge the day by', () => {
+    const challenge = createFreeUntilTen(SOCIAL_MEDIA);
+    setCurrentDay('2024-03-08', []);
+
+    refreshAt(getDayWindow(DAY).end + CONSTANTS.TIME.HOUR);
+
+    expect(findChallenge(challenge.instanceId).status).toBe('expired');
+    expect(wallet().tokenBalance).toBe(100);
+    expect(getAccountBalance(wallet().ledger, 'escrow')).toBe(0);
+  });
+
+  it('returns the stake when the stored usage cannot tell', () => {
+    const challenge = createFreeUntilTen(SOCIAL_MEDIA);
+    // Used that day, but only known to have been used last after the cutoff
+    closeDay([
+      {
+        packageName: 'com.instagram.android',
+        appName: 'Instagram',
+        category: SOCIAL_MEDIA,
+        timeSpent: 30 * CONSTANTS.TIME.MINUTE,
+        lastUsed: at(20),
+      },
+    ]);
+    setCurrentDay('2024-03-08', []);
+
+    refreshAt(getDayWindow(DAY).end + CONSTANTS.TIME.HOUR);
+
+    expect(findChallenge(challenge.instanceId).status).toBe('expired');
+    expect(wallet().tokenBalance).toBe(100);
+  });
+
+  it('returns the stake for a day that was not measured', () => {
+    const challenge = createFreeUntilTen(SOCIAL_MEDIA);
+    useScreenTimeStore.getState().updateDailyScreenTime(DAY, usageCollectionService.buildUnmeasuredDay(DAY));
+    setCurrentDay('2024-03-08', []);
+
+    refreshAt(getDayWindow(DAY).end + CONSTANTS.TIME.HOUR);
+
+    expect(findChallenge(challenge.instanceId).status).toBe('expired');
+    expect(wallet().tokenBalance).toBe(100);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  calculateDowntimeCompliance,
+  formatDowntimeMinute,
+  getActiveDowntime,
+  getDowntimeWindows,
+  parseDowntimeMinute,
+} from '../downtime';
+import { usageCollectionService } from '../usageCollection';
+import { screenTimeService } from '../screenTime';
+import { MockUsageSource } from '../usageSources';
+import { DowntimeSchedule, UsageSession, useScreenTimeStore } from '../../store/screenTimeStore';
+import { CONSTANTS } from '../../utils/constants';
+
+const { MINUTE, HOUR } = CONSTANTS.TIME;
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+// 22:00 to 07:00, every night
+const bedtime: DowntimeSchedule = {
+  id: 'bedtime',
+  name: 'Bedtime',
+  daysOfWeek: EVERY_DAY,
+  startMinute: 22 * 60,
+  endMinute: 7 * 60,
+  packageNames: ['com.whatsapp'],
+  categories: [CONSTANTS.SCREEN_TIME_CATEGORIES.SOCIAL_MEDIA],
+  strictness: 'gentle',
+  enabled: true,
+};
+
+const at = (day: number, hour: number, minute: number = 0) => new Date(2024, 2, day, hour, minute).getTime();
+
+const session = (packageName: string, startTime: number, endTime: number): UsageSession => ({
+  packageName,
+  appName: packageName,
+  startTime,
+  endTime,
+});
+
+describe('downtime minutes', () => {
+  it('round-trips HH:MM', () => {
+    expect(parseDowntimeMinute('07:05')).toBe(425);
+    expect(formatDowntimeMinute(425)).toBe('07:05');
+  });
+
+  it('rejects malformed times', () => {
+    expect(parseDowntimeMinute('24:00')).toBeNull();
+    expect(parseDowntimeMinute('7:60')).toBeNull();
+    expect(parseDowntimeMinute('noon')).toBeNull();
+  });
+});
+
+describe('getDowntimeWindows', () => {
+  it('includes the window that started the evening before', () => {
+    const windows = getDowntimeWindows(bedtime, at(5, 4), at(6, 4));
+
+    expect(windows.map(window => [window.start, window.end])).toEqual([
+      [at(4, 22), at(5, 7)],
+      [at(5, 22), at(6, 7)],
+    ]);
+  });
+
+  it('only starts windows on the scheduled days', () => {
+    const monday = new Date(2024, 2, 4).getDay();
+    const windows = getDowntimeWindows({ ...bedtime, daysOfWeek: [monday] }, at(4, 0), at(7, 0));
+
+    expect(windows).toHaveLength(1);
+    expect(windows[0].start).toBe(at(4, 22));
+  });
+
+  it('has no windows while disabled', () => {
+    expect(getDowntimeWindows({ ...bedtime, enabled: false }, at(4, 0), at(7, 0))).toEqual([]);
+  });
+});
+
+describe('getActiveDowntime', () => {
+  it('restricts covered apps inside a window', () => {
+    expect(getActiveDowntime([bedtime], 'com.whatsapp', at(5, 23))?.end).toBe(at(6, 7));
+    expect(getActiveDowntime([bedtime], 'com.instagram.android', at(6, 2))).not.toBeNull();
+  });
+
+  it('leaves other apps and other times alone', () => {
+    expect(getActiveDowntime([bedtime], 'com.example.notes', at(5, 23))).toBeNull();
+    expect(getActiveDowntime([bedtime], 'com.whatsapp', at(5, 12))).toBeNull();
+  });
+
+  it('prefers a strict window over a gentle one', () => {
+    const strict: DowntimeSchedule = { ...bedtime, id: 'strict', strictness: 'strict' };
+    expect(getActiveDowntime([bedtime, strict], 'com.whatsapp', at(5, 23))?.schedule.id).toBe('strict');
+  });
+});
+
+describe('calculateDowntimeCompliance', () => {
+  const dayStart = at(5, 4);
+  const dayEnd = at(6, 4);
+
+  it('counts only the windows that ended during the day', () => {
+    expect(calculateDowntimeCompliance([bedtime], [], dayStart, dayEnd)).toEqual({
+      windowsTotal: 1,
+      windowsRespected: 1,
+    });
+  });
+
+  it('breaks a window on use of a covered app', () => {
+    const sessions = [session('com.instagram.android', at(5, 6), at(5, 6) + 10 * MINUTE)];
+
+    expect(calculateDowntimeCompliance([bedtime], sessions, dayStart, dayEnd).windowsRespected).toBe(0);
+  });
+
+  it('tolerates a brief slip and use of other apps', () => {
+    const sessions = [
+      session('com.whatsapp', at(5, 6), at(5, 6) + 30 * 1000),
+      session('com.example.notes', at(5, 5), at(5, 5) + HOUR),
+    ];
+
+    expect(calculateDowntimeCompliance([bedtime], sessions, dayStart, dayEnd).windowsRespected).toBe(1);
+  });
+});
+
+describe('unmeasured downtime', () => {
+  afterEach(() => {
+    screenTimeService.setUsageSource(new MockUsageSource());
+    jest.useRealTimers();
+  });
+
+  it('judges no window without usage data', async () => {
+    jest.useFakeTimers({ now: at(6, 12) });
+    useScreenTimeStore.setState({ downtimeSchedules: [bedtime] });
+    screenTimeService.setUsageSource(Object.assign(new MockUsageSource(), { isAvailable: async () => false }));
+
+    expect(await usageCollectionService.getDowntimeCompliance('2024-03-05')).toBeUndefined();
+  });
+});
+
+describe('ignoreDowntime', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores the override and drops the ones that ran out', () => {
+    jest.useFakeTimers({ now: at(5, 23) });
+    useScreenTimeStore.setState({ downtimeOverrides: { 'com.instagram.android': at(5, 7) } });
+
+    useScreenTimeStore.getState().ignoreDowntime('com.whatsapp', at(6, 7));
+
+    expect(useScreenTimeStore.getState().downtimeOverrides).toEqual({ 'com.whatsapp': at(6, 7) });
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { focusModeService } from '../focusMode';
+import { useFocusStore } from '../../store/focusStore';
+import { useWalletStore } from '../../store/walletStore';
+import { CONSTANTS } from '../../utils/constants';
+
+describe('focusModeService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2024, 2, 6, 12) });
+    useFocusStore.setState({ activeSession: null, history: [] });
+    useWalletStore.setState({ ledger: [] });
+  });
+
+  afterEach(() => {
+    focusModeService.abandon();
+    jest.useRealTimers();
+  });
+
+  it('pays a completed session with its breakdown on the ledger entry', () => {
+    focusModeService.start(25, []);
+    jest.advanceTimersByTime(25 * CONSTANTS.TIME.MINUTE);
+
+    // Challenges and achievements the session completes are paid after it
+    const entry = useWalletStore.getState().ledger.find(item => item.description === '25 min focus session')!;
+    expect(useFocusStore.getState().history[0].status).toBe('completed');
+    expect(entry.reason).toBe('earned');
+    expect(entry.breakdown).toEqual([expect.objectContaining({ type: 'focus', tokens: entry.amount })]);
+  });
+
+  it('pays nothing for an abandoned session', () => {
+    focusModeService.start(25, []);
+    focusModeService.abandon();
+
+    expect(useFocusStore.getState().history[0].status).toBe('abandoned');
+    expect(useWalletStore.getState().ledger).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  LimitEvaluation,
+  LimitTarget,
+  evaluateLimit,
+  getUnlockOptions,
+  limitEngine,
+  mostRestrictive,
+} from '../limitEngine';
+import { notificationService } from '../notifications';
+import { useScreenTimeStore } from '../../store/screenTimeStore';
+import { useWalletStore } from '../../store/walletStore';
+import { CONSTANTS } from '../../utils/constants';
+import { asTokens } from '../../utils/money';
+
+const { MINUTE } = CONSTANTS.TIME;
+
+const instagram: LimitTarget = {
+  scope: 'app',
+  key: 'com.instagram.android',
+  name: 'Instagram',
+  dailyLimit: 30,
+};
+
+const socialBudget: LimitTarget = {
+  scope: 'category',
+  key: `category:${CONSTANTS.SCREEN_TIME_CATEGORIES.SOCIAL_MEDIA}`,
+  name: CONSTANTS.SCREEN_TIME_CATEGORIES.SOCIAL_MEDIA,
+  dailyLimit: 60,
+};
+
+const evaluate = (minutesSpent: number, extraMinutes: number = 0) =>
+  evaluateLimit(instagram, minutesSpent * MINUTE, { extraMinutes, freeMinuteUsed: false })!;
+
+describe('evaluateLimit', () => {
+  it('climbs the ladder from ok to overrun', () => {
+    expect(evaluate(10).level).toBe('ok');
+    expect(evaluate(24).level).toBe('warning');
+    expect(evaluate(30).level).toBe('reached');
+    expect(evaluate(30 + CONSTANTS.APP_LIMITS.GRACE_MINUTES).level).toBe('overrun');
+  });
+
+  it('reports the time until the next rung', () => {
+    expect(evaluate(10).nextLevelIn).toBe(14 * MINUTE);
+    expect(evaluate(24).remaining).toBe(6 * MINUTE);
+    expect(evaluate(45).nextLevelIn).toBeNull();
+  });
+
+  it('moves the ladder up by the unlocked minutes', () => {
+    const extended = evaluate(30, 15);
+
+    expect(extended.allowance).toBe(45 * MINUTE);
+    expect(extended.level).toBe('ok');
+  });
+
+  it('ignores targets without a limit', () => {
+    expect(evaluateLimit({ ...instagram, dailyLimit: undefined }, 60 * MINUTE)).toBeNull();
+  });
+});
+
+describe('mostRestrictive', () => {
+  it('prefers the higher level, then the least time left', () => {
+    const warning = evaluate(25);
+    const closerWarning = evaluate(28);
+    const reached = evaluate(31);
+
+    expect(mostRestrictive([warning, reached, closerWarning])).toBe(reached);
+    expect(mostRestrictive([warning, closerWarning])).toBe(closerWarning);
+    expect(mostRestrictive([])).toBeNull();
+  });
+});
+
+describe('getUnlockOptions', () => {
+  it('offers the free minute once', () => {
+    expect(getUnlockOptions()[0]).toMatchObject({ id: 'free_minute', tokens: 0 });
+    expect(getUnlockOptions(true).map(option => option.tokens)).toEqual(
+      CONSTANTS.APP_LIMITS.PAID_UNLOCKS.map(unlock => unlock.tokens)
+    );
+  });
+});
+
+describe('limitEngine.unlock', () => {
+  const limit: LimitEvaluation = evaluate(31);
+  const paid = CONSTANTS.APP_LIMITS.PAID_UNLOCKS[0];
+
+  beforeEach(() => {
+    useScreenTimeStore.setState({
+      limitExtensions: {},
+      limitWarningsSent: { [limit.key]: 'reached' },
+    });
+    useWalletStore.setState({ ledger: [] });
+    useWalletStore.getState().addTokens(asTokens(100));
+  });
+
+  it('records the free minute as a zero-token unlock', () => {
+    limitEngine.unlock([limit], 'free_minute', instagram.key);
+
+    const [entry] = useWalletStore.getState().ledger;
+    expect(entry).toMatchObject({ reason: 'unlock', amount: 0, relatedApp: instagram.key });
+    expect(useWalletStore.getState().tokenBalance).toBe(100);
+    expect(useScreenTimeStore.getState().limitExtensions[limit.key]).toEqual({
+      extraMinutes: CONSTANTS.APP_LIMITS.FREE_UNLOCK_MINUTES,
+      freeMinuteUsed: true,
+    });
+  });
+
+  it('charges a paid unlock and extends the allowance', () => {
+    limitEngine.unlock([limit], `unlock_${paid.minutes}`, instagram.key);
+
+    expect(useWalletStore.getState().tokenBalance).toBe(100 - paid.tokens);
+    expect(useScreenTimeStore.getState().limitExtensions[limit.key].extraMinutes).toBe(paid.minutes);
+  });
+
+  it('re-arms the warnings for the new allowance', () => {
+    limitEngine.unlock([limit], `unlock_${paid.minutes}`, instagram.key);
+
+    expect(useScreenTimeStore.getState().limitWarningsSent[limit.key]).toBeUndefined();
+  });
+
+  it('refuses an unlock the balance cannot cover', () => {
+    useWalletStore.setState({ ledger: [] });
+    useWalletStore.getState().addTokens(asTokens(paid.tokens - 1));
+
+    expect(() => limitEngine.unlock([limit], `unlock_${paid.minutes}`, instagram.key)).toThrow(
+      'Insufficient token balance'
+    );
+    expect(useScreenTimeStore.getState().limitExtensions[limit.key]).toBeUndefined();
+  });
+
+  it('extends every limit the app has used up', () => {
+    const budget = evaluateLimit(socialBudget, 65 * MINUTE)!;
+    const roomy = evaluateLimit({ ...socialBudget, key: 'category:Other', dailyLimit: 120 }, 65 * MINUTE)!;
+
+    limitEngine.unlock([limit, budget, roomy], `unlock_${paid.minutes}`, instagram.key);
+
+    const { limitExtensions } = useScreenTimeStore.getState();
+    expect(Object.keys(limitExtensions).sort()).toEqual([budget.key, limit.key].sort());
+    expect(useWalletStore.getState().tokenBalance).toBe(100 - paid.tokens);
+  });
+});
+
+describe('limit warnings', () => {
+  beforeEach(() => {
+    useScreenTimeStore.setState({
+      blockedApps: [{ packageName: instagram.key, appName: 'Instagram', isBlocked: false, dailyLimit: 30 }],
+      categoryLimits: [],
+      limitWarningsSent: {},
+      limitExtensions: { [instagram.key]: { extraMinutes: 15, freeMinuteUsed: false } },
+    });
+  });
+
+  it('quote the limit including unlocks', async () => {
+    const notify = jest.spyOn(notificationService, 'notify').mockResolvedValue();
+
+    await limitEngine.check([
+      { packageName: instagram.key, appName: 'Instagram', category: '', timeSpent: 40 * MINUTE, lastUsed: 0 },
+    ]);
+
+    expect(notify).toHaveBeenCalledWith(
+      'SCREEN_TIME',
+      expect.any(String),
+      expect.stringContaining('of your 45 min limit'),
+      `limit_${instagram.key}`
+    );
+    notify.mockRestore();
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { getSettlementId, settlementService } from '../settlement';
+import { usageCollectionService } from '../usageCollection';
+import { screenTimeService } from '../screenTime';
+import { MockUsageSource } from '../usageSources';
+import { useScreenTimeStore } from '../../store/screenTimeStore';
+import { useWalletStore } from '../../store/walletStore';
+import { useAuthStore } from '../../store/authStore';
+import { UserProfile } from '../../auth/AuthContext';
+import { getDayWindow, getTodayDateString, shiftDateString } from '../../utils/dates';
+
+const source = new MockUsageSource();
+
+const setGoalHours = (hours: number) =>
+  useAuthStore.getState().setAuthUser({
+    uid: 'user',
+    screenTimeGoal: { weekdayHours: hours, weekendHours: hours },
+  } as UserProfile);
+
+// Close a day with the mock source's usage for it, as rollover would
+const recordDay = async (date: string) => {
+  const { start, end } = getDayWindow(date);
+  const apps = await source.queryUsage(start, end);
+
+  useScreenTimeStore.getState().updateDailyScreenTime(date, {
+    date,
+    totalTime: apps.reduce((total, app) => total + app.timeSpent, 0),
+    apps,
+    tokensEarned: 0,
+  });
+};
+
+describe('settlementService', () => {
+  let today: string;
+  let yesterday: string;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2024, 2, 6, 12) });
+    today = getTodayDateString();
+    yesterday = shiftDateString(today, -1);
+
+    useScreenTimeStore.setState({
+      dailyScreenTime: {},
+      streak: { current: 0, longest: 0, lastQualifyingDate: null, freezeTokens: 0 },
+    });
+    useWalletStore.setState({ ledger: [], investments: [] });
+    setGoalHours(12);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('pays out a day under goal exactly once', async () => {
+    await recordDay(yesterday);
+
+    const first = settlementService.settle(yesterday);
+    const second = settlementService.settle(yesterday);
+
+    expect(first?.tokensEarned).toBeGreaterThan(0);
+    expect(second?.settledAt).toBe(first?.settledAt);
+    expect(useWalletStore.getState().ledger).toEqual([
+      expect.objectContaining({ id: getSettlementId('user', yesterday), amount: first?.tokensEarned }),
+    ]);
+    expect(useWalletStore.getState().tokenBalance).toBe(first?.tokensEarned);
+    expect(useScreenTimeStore.getState().streak).toMatchObject({ current: 1, lastQualifyingDate: yesterday });
+  });
+
+  it('does not pay twice when the settlement was already credited', async () => {
+    await recordDay(yesterday);
+    const settled = settlementService.settle(yesterday)!;
+
+    // A record from before the payout was marked, e.g. restored from sync
+    useScreenTimeStore.getState().updateDailyScreenTime(yesterday, { ...settled, settledAt: undefined });
+    settlementService.settle(yesterday);
+
+    expect(useWalletStore.getState().ledger).toHaveLength(1);
+  });
+
+  it('settles closed days oldest first and leaves today open', async () => {
+    const dayBefore = shiftDateString(yesterday, -1);
+    await recordDay(dayBefore);
+    await recordDay(yesterday);
+    await recordDay(today);
+
+    expect(settlementService.settlePending()).toEqual([dayBefore, yesterday]);
+    expect(useScreenTimeStore.getState().dailyScreenTime[today].settledAt).toBeUndefined();
+    expect(useScreenTimeStore.getState().streak.current).toBe(2);
+  });
+
+  it('waits for a signed-in user', async () => {
+    useAuthStore.getState().clearAuthUser();
+    await recordDay(yesterday);
+
+    expect(settlementService.settle(yesterday)).toBeNull();
+    expect(useWalletStore.getState().ledger).toEqual([]);
+  });
+
+  it('pays nothing for a day it could not measure and counts it as missed', () => {
+    useScreenTimeStore.setState({
+      streak: { current: 3, longest: 3, lastQualifyingDate: shiftDateString(yesterday, -1), freezeTokens: 0 },
+    });
+    useScreenTimeStore.getState().updateDailyScreenTime(yesterday, usageCollectionService.buildUnmeasuredDay(yesterday));
+
+    const settled = settlementService.settle(yesterday);
+
+    expect(settled).toMatchObject({ tokensEarned: 0, unmeasured: true });
+    expect(useWalletStore.getState().ledger).toEqual([]);
+    expect(useScreenTimeStore.getState().streak.current).toBe(0);
+  });
+
+  it('closes a day as unmeasured when the usage source is unavailable', async () => {
+    const unavailable = Object.assign(new MockUsageSource(), { isAvailable: async () => false });
+    screenTimeService.setUsageSource(unavailable);
+    useScreenTimeStore.setState({ currentUsageDate: yesterday, currentDayUsage: [] });
+
+    try {
+      expect(await usageCollectionService.rollover()).toEqual([yesterday]);
+    } finally {
+      screenTimeService.setUsageSource(source);
+    }
+
+    expect(useScreenTimeStore.getState().dailyScreenTime[yesterday]).toMatchObject({ unmeasured: true, apps: [] });
+  });
+
+  it('spends a streak freeze on a missed day', async () => {
+    setGoalHours(1);
+    useScreenTimeStore.setState({
+      streak: { current: 3, longest: 3, lastQualifyingDate: shiftDateString(yesterday, -1), freezeTokens: 1 },
+    });
+    await recordDay(yesterday);
+
+    const settled = settlementService.settle(yesterday);
+
+    expect(settled?.streakFreezeUsed).toBe(true);
+    expect(useScreenTimeStore.getState().streak).toMatchObject({ current: 3, freezeTokens: 0 });
+    expect(useScreenTimeStore.getState().dailyScreenTime[yesterday].streakFreezeUsed).toBe(true);
+    expect(useWalletStore.getState().ledger).toEqual([]);
+  });
+});
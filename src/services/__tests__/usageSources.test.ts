@@ -0,0 +1,123 @@
+import { describe, expect, it } from '@jest/globals';
+import { MockUsageSource, buildSessionsFromEvents, summarizeSessions } from '../usageSources';
+import { NativeUsageEvent } from '../../native/usageEvents';
+import { CONSTANTS } from '../../utils/constants';
+
+const { SECOND, MINUTE, HOUR, DAY } = CONSTANTS.TIME;
+const START = new Date(2024, 2, 4, 8).getTime();
+const END = START + HOUR;
+
+const event = (
+  packageName: string,
+  type: NativeUsageEvent['type'],
+  offset: number
+): NativeUsageEvent => ({ packageName, type, timestamp: START + offset });
+
+describe('buildSessionsFromEvents', () => {
+  it('pairs foreground and background events into sessions', () => {
+    const sessions = buildSessionsFromEvents(
+      [
+        event('com.whatsapp', 'foreground', 0),
+        event('com.whatsapp', 'background', 5 * MINUTE),
+        event('com.instagram.android', 'foreground', 10 * MINUTE),
+        event('com.instagram.android', 'background', 20 * MINUTE),
+      ],
+      START,
+      END
+    );
+
+    expect(sessions).toEqual([
+      { packageName: 'com.whatsapp', appName: 'WhatsApp', startTime: START, endTime: START + 5 * MINUTE },
+      {
+        packageName: 'com.instagram.android',
+        appName: 'Instagram',
+        startTime: START + 10 * MINUTE,
+        endTime: START + 20 * MINUTE,
+      },
+    ]);
+  });
+
+  it('clips sessions to the window and closes one still open at the end', () => {
+    const sessions = buildSessionsFromEvents(
+      [
+        event('com.whatsapp', 'foreground', -10 * MINUTE),
+        event('com.whatsapp', 'background', 5 * MINUTE),
+        event('com.twitter.android', 'foreground', 50 * MINUTE),
+      ],
+      START,
+      END
+    );
+
+    expect(sessions.map(session => [session.startTime - START, session.endTime - START])).toEqual([
+      [0, 5 * MINUTE],
+      [50 * MINUTE, HOUR],
+    ]);
+  });
+
+  it('merges activity switches inside one app', () => {
+    const sessions = buildSessionsFromEvents(
+      [
+        event('com.whatsapp', 'foreground', 0),
+        event('com.whatsapp', 'background', MINUTE),
+        event('com.whatsapp', 'foreground', MINUTE + SECOND),
+        event('com.whatsapp', 'background', 3 * MINUTE),
+      ],
+      START,
+      END
+    );
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].endTime - sessions[0].startTime).toBe(3 * MINUTE);
+  });
+
+  it('ends sessions at screen off and ignores FOOM itself', () => {
+    const sessions = buildSessionsFromEvents(
+      [
+        event('com.whatsapp', 'foreground', 0),
+        event('android', 'screen_off', 2 * MINUTE),
+        event(CONSTANTS.APP_PACKAGE_NAME, 'foreground', 10 * MINUTE),
+        event(CONSTANTS.APP_PACKAGE_NAME, 'background', 15 * MINUTE),
+      ],
+      START,
+      END
+    );
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].endTime).toBe(START + 2 * MINUTE);
+  });
+});
+
+describe('MockUsageSource', () => {
+  const source = new MockUsageSource();
+  const dayStart = new Date(2024, 2, 4, 4).getTime();
+
+  it('returns the same sessions for the same window', async () => {
+    const first = await source.querySessions(dayStart, dayStart + DAY);
+    const second = await source.querySessions(dayStart, dayStart + DAY);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it('keeps sessions inside the window without overlaps', async () => {
+    const sessions = await source.querySessions(dayStart, dayStart + DAY);
+
+    sessions.forEach((session, index) => {
+      expect(session.startTime).toBeGreaterThanOrEqual(dayStart);
+      expect(session.endTime).toBeLessThanOrEqual(dayStart + DAY);
+      if (index > 0) {
+        expect(session.startTime).toBeGreaterThanOrEqual(sessions[index - 1].endTime);
+      }
+    });
+  });
+
+  it('reports usage that adds up to its sessions', async () => {
+    const sessions = await source.querySessions(dayStart, dayStart + DAY);
+    const usage = await source.queryUsage(dayStart, dayStart + DAY);
+
+    expect(usage).toEqual(summarizeSessions(sessions));
+    expect(usage.reduce((total, app) => total + app.timeSpent, 0)).toBe(
+      sessions.reduce((total, session) => total + session.endTime - session.startTime, 0)
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { UnlockedAchievement, useAchievementStore } from '../store/achievementStore';
+import { useScreenTimeStore } from '../store/screenTimeStore';
+import { useWalletStore } from '../store/walletStore';
+import { useFocusStore } from '../store/focusStore';
+import { useGoalStore } from '../store/goalStore';
+import { useChallengeStore } from '../store/challengeStore';
+import { useAuthStore } from '../store/authStore';
+import { ScreenTimeGoal } from '../auth/AuthContext';
+import { notificationService } from './notifications';
+import { asTokens } from '../utils/money';
+import bundledAchievements from '../data/achievements.json';
+
+/**
+ * Numbers achievements can be defined against. Adding a badge on one of
+ * these only needs a new entry in achievements.json.
+ */
+export type AchievementMetric =
+  | 'tokens_invested'
+  | 'tokens_earned'
+  | 'longest_streak'
+  | 'focus_sessions'
+  | 'goals_lowered'
+  | 'challenges_completed';
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: string; // MaterialCommunityIcons name
+  metric: AchievementMetric;
+  threshold: number;
+  rewardTokens: number; // paid once, on unlock
+}
+
+const weeklyGoalHours = (goal: ScreenTimeGoal): number => goal.weekdayHours * 5 + goal.weekendHours * 2;
+
+const METRICS: Record<AchievementMetric, () => number> = {
+  tokens_invested: () =>
+    useWalletStore
+      .getState()
+      .transactions.filter(transaction => transaction.type === 'invested')
+      .reduce((total, transaction) => total - transaction.amount, 0),
+  tokens_earned: () => useWalletStore.getState().totalEarned,
+  longest_streak: () => useScreenTimeStore.getState().streak.longest,
+  focus_sessions: () => useFocusStore.getState().history.filter(session => session.status === 'completed').length,
+  goals_lowered: () =>
+    useGoalStore
+      .getState()
+      .history.filter(change => change.previousGoal && weeklyGoalHours(change.goal) < weeklyGoalHours(change.previousGoal))
+      .length,
+  challenges_completed: () => useChallengeStore.getState().getChallengesByStatus('completed').length,
+};
+
+/**
+ * Wallet transaction id for a badge's reward, one per user and badge
+ */
+export const getAchievementRewardId = (uid: string, achievementId: string): string =>
+  `achievement_${uid}_${achievementId}`;
+
+export const ACHIEVEMENTS: AchievementDefinition[] = (bundledAchievements.achievements as AchievementDefinition[]).filter(
+  achievement => achievement.metric in METRICS
+);
+
+class AchievementService {
+  /**
+   * Current value of each metric, for progress toward locked badges
+   */
+  getProgress(): Record<AchievementMetric, number> {
+    return Object.fromEntries(
+      Object.entries(METRICS).map(([metric, measure]) => [metric, measure()])
+    ) as Record<AchievementMetric, number>;
+  }
+
+  /**
+   * Unlock every badge whose threshold has been reached and pay its reward.
+   * Returns the badges unlocked by this pass.
+   */
+  evaluate(): UnlockedAchievement[] {
+    const uid = useAuthStore.getState().user?.uid;
+    if (!uid) return [];
+
+    const { unlocked, unlock } = useAchievementStore.getState();
+    const pending = ACHIEVEMENTS.filter(achievement => !unlocked[achievement.id]);
+    if (pending.length === 0) return [];
+
+    const progress = this.getProgress();
+    return pending
+      .filter(achievement => progress[achievement.metric] >= achievement.threshold)
+      .map(achievement => {
+        const unlockedAchievement: UnlockedAchievement = {
+          id: achievement.id,
+          unlockedAt: Date.now(),
+          tokensAwarded: achievement.rewardTokens,
+        };
+
+        unlock(unlockedAchievement);
+        if (achievement.rewardTokens > 0) {
+          useWalletStore.getState().creditSettlement({
+            id: getAchievementRewardId(uid, achievement.id),
+            amount: asTokens(achievement.rewardTokens),
+            description: `Badge unlocked: ${achievement.title}`,
+            breakdown: [
+              {
+                type: 'milestone',
+                description: achievement.title,
+                tokens: achievement.rewardTokens,
+              },
+            ],
+          });
+        }
+        notificationService.notify(
+          'REWARDS',
+          'Badge unlocked',
+          achievement.rewardTokens > 0
+            ? `${achievement.title}: you earned ${achievement.rewardTokens} tokens.`
+            : `${achievement.title}: ${achievement.description}.`,
+          `achievement_${achievement.id}`
+        );
+
+        return unlockedAchievement;
+      });
+  }
+}
+
+export const achievementService = new AchievementService();
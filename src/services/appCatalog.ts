@@ -0,0 +1,86 @@
+import { InstalledApp, useAppCatalogStore } from '../store/appCatalogStore';
+import {
+  SystemAppCategory,
+  getInstalledApps,
+  isInstalledAppsAvailable,
+} from '../native/installedApps';
+import { CONSTANTS } from '../utils/constants';
+import bundledCategories from '../data/appCategories.json';
+
+const CATEGORIES = CONSTANTS.SCREEN_TIME_CATEGORIES;
+
+const PACKAGE_CATEGORIES: Record<string, string> = bundledCategories;
+
+// Fallback for packages missing from the bundled table
+const SYSTEM_CATEGORIES: Record<SystemAppCategory, string> = {
+  game: CATEGORIES.GAMES,
+  audio: CATEGORIES.ENTERTAINMENT,
+  video: CATEGORIES.ENTERTAINMENT,
+  image: CATEGORIES.UTILITIES,
+  social: CATEGORIES.SOCIAL_MEDIA,
+  news: CATEGORIES.NEWS,
+  maps: CATEGORIES.UTILITIES,
+  productivity: CATEGORIES.PRODUCTIVITY,
+};
+
+/**
+ * Pick a category for a package from the bundled table, then from the
+ * category its developer declared, falling back to Other
+ */
+export const categorizeApp = (
+  packageName: string,
+  systemCategory: SystemAppCategory | null = null
+): string => {
+  return (
+    PACKAGE_CATEGORIES[packageName] ||
+    (systemCategory ? SYSTEM_CATEGORIES[systemCategory] : undefined) ||
+    CATEGORIES.OTHER
+  );
+};
+
+class AppCatalogService {
+  private pendingRefresh: Promise<InstalledApp[]> | null = null;
+
+  /**
+   * Reload the launchable apps and their icons. Without the native module
+   * the catalog stays as it was.
+   */
+  refresh(): Promise<InstalledApp[]> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.loadInstalledApps().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async loadInstalledApps(): Promise<InstalledApp[]> {
+    if (!isInstalledAppsAvailable()) {
+      return useAppCatalogStore.getState().installedApps;
+    }
+
+    try {
+      const nativeApps = await getInstalledApps(true);
+      const icons: Record<string, string> = {};
+      const apps = nativeApps
+        .map(app => {
+          if (app.icon) icons[app.packageName] = app.icon;
+          return {
+            packageName: app.packageName,
+            appName: app.appName,
+            category: categorizeApp(app.packageName, app.systemCategory),
+            isSystemApp: app.isSystemApp,
+          };
+        })
+        .sort((a, b) => a.appName.localeCompare(b.appName));
+
+      useAppCatalogStore.getState().setInstalledApps(apps, icons);
+      return apps;
+    } catch (error) {
+      console.error('Error loading installed apps:', error);
+      return useAppCatalogStore.getState().installedApps;
+    }
+  }
+}
+
+export const appCatalogService = new AppCatalogService();
@@ -0,0 +1,75 @@
+import BackgroundFetch, { HeadlessEvent } from 'react-native-background-fetch';
+import { useSyncStore } from '../store/syncStore';
+import { ensureStoresHydrated } from '../store/hydration';
+import { usageCollectionService } from './usageCollection';
+import { syncQueueService } from './syncQueue';
+import { CONSTANTS } from '../utils/constants';
+
+class BackgroundCollectionService {
+  private configured = false;
+
+  /**
+   * One background pass: sample usage (rolling over and checking limits
+   * on the way), then push whatever is queued
+   */
+  async run(): Promise<void> {
+    try {
+      await usageCollectionService.collectToday();
+      await syncQueueService.flush();
+    } catch (error) {
+      console.error('Background collection failed:', error);
+    } finally {
+      useSyncStore.getState().setLastBackgroundRun(Date.now());
+    }
+  }
+
+  /**
+   * Schedule the periodic task while the app process is alive. Runs that
+   * happen after the app is killed go through the headless task instead.
+   */
+  async configure(): Promise<void> {
+    if (this.configured) return;
+
+    try {
+      await BackgroundFetch.configure(
+        {
+          minimumFetchInterval: CONSTANTS.LIMITS.BACKGROUND_FETCH_INTERVAL_MINUTES,
+          stopOnTerminate: false,
+          startOnBoot: true,
+          enableHeadless: true,
+          requiredNetworkType: BackgroundFetch.NETWORK_TYPE_NONE,
+        },
+        async (taskId: string) => {
+          await this.run();
+          BackgroundFetch.finish(taskId);
+        },
+        (taskId: string) => {
+          BackgroundFetch.finish(taskId);
+        }
+      );
+      this.configured = true;
+    } catch (error) {
+      console.error('Error configuring background collection:', error);
+    }
+  }
+
+  /**
+   * Register the task Android runs when the app is not in memory. Must be
+   * called at module load, before the first render.
+   */
+  registerHeadlessTask(): void {
+    BackgroundFetch.registerHeadlessTask(async ({ taskId, timeout }: HeadlessEvent) => {
+      if (timeout) {
+        BackgroundFetch.finish(taskId);
+        return;
+      }
+
+      // A headless task starts a fresh JS context
+      await ensureStoresHydrated();
+      await this.run();
+      BackgroundFetch.finish(taskId);
+    });
+  }
+}
+
+export const backgroundCollectionService = new BackgroundCollectionService();
@@ -0,0 +1,392 @@
+import { AppRegistry } from 'react-native';
+import { AppUsage, BlockedApp, useScreenTimeStore } from '../store/screenTimeStore';
+import { FocusSession } from '../store/focusStore';
+import { ensureStoresHydrated } from '../store/hydration';
+import {
+  FOREGROUND_CHANGE_TASK,
+  SHIELD_ACTION_TASK,
+  ForegroundChangeEvent,
+  ShieldAction,
+  ShieldActionEvent,
+  ShieldOptions,
+  canDrawOverlays,
+  getProtectedPackages,
+  isAppBlockerAvailable,
+  isBlockerServiceEnabled,
+  openAccessibilitySettings,
+  openOverlaySettings,
+  showShield,
+  hideShield,
+} from '../native/appBlocker';
+import { LimitEvaluation, UnlockOption, limitEngine, mostRestrictive } from './limitEngine';
+import {
+  DowntimeWindow,
+  formatDowntimeMinute,
+  getActiveDowntime,
+  getNextDowntimeStart,
+  scheduleCoversApp,
+} from './downtime';
+import { focusModeService } from './focusMode';
+import { notificationService } from './notifications';
+import { getAppCategory, getAppName } from './usageSources';
+import { CONSTANTS } from '../utils/constants';
+import { formatTime } from '../utils/helpers';
+
+export type BlockReason = 'blocked' | 'focus' | 'downtime' | 'limit';
+
+export interface BlockerSetupStatus {
+  serviceEnabled: boolean;
+  overlayAllowed: boolean;
+}
+
+export interface BlockingContext {
+  blockedApps: BlockedApp[];
+  usage: AppUsage[];
+  limit?: LimitEvaluation | null;
+  unlockOptions?: UnlockOption[];
+  downtime?: DowntimeWindow | null;
+  focus?: FocusSession | null; // a running session the app is not allowed in
+  blockedCategory?: string | null; // the app's category, if that whole category is blocked
+}
+
+export interface BlockDecision {
+  packageName: string;
+  appName: string;
+  reason: BlockReason;
+  timeSpent: number; // in milliseconds, today
+  dailyLimit?: number; // in minutes, including today's unlocks
+  category?: string; // set when a category block or budget applies
+  downtime?: DowntimeWindow;
+  focus?: FocusSession;
+  actions: ShieldAction[];
+}
+
+const DOWNTIME_IGNORE_ACTION = 'downtime_ignore';
+const FOCUS_ABANDON_ACTION = 'focus_abandon';
+
+/**
+ * Decide whether a package that just came to the foreground should be
+ * shielded: always when it or its category is blocked outright, during a
+ * focus session that does not allow it, during one of its downtime
+ * windows, and once its own limit or its category budget is overrun.
+ * Returns null when it may be used.
+ */
+export const evaluateBlockingPolicy = (
+  packageName: string,
+  {
+    blockedApps,
+    usage,
+    limit = null,
+    unlockOptions = [],
+    downtime = null,
+    focus = null,
+    blockedCategory = null,
+  }: BlockingContext
+): BlockDecision | null => {
+  const app = blockedApps.find(blocked => blocked.packageName === packageName);
+  if (!app && !limit && !downtime && !focus && !blockedCategory) return null;
+
+  const decision = {
+    packageName,
+    appName: app?.appName || getAppName(packageName),
+    timeSpent: limit?.timeSpent ?? (usage.find(u => u.packageName === packageName)?.timeSpent || 0),
+    dailyLimit: limit ? limit.allowance / CONSTANTS.TIME.MINUTE : app?.dailyLimit,
+    category: limit?.scope === 'category' ? limit.name : undefined,
+  };
+
+  if (app?.isBlocked) {
+    return { ...decision, reason: 'blocked', actions: [] };
+  }
+  if (blockedCategory) {
+    return { ...decision, reason: 'blocked', category: blockedCategory, actions: [] };
+  }
+  if (focus) {
+    const actions = [{ id: FOCUS_ABANDON_ACTION, label: 'End focus session' }];
+    return { ...decision, reason: 'focus', focus, actions };
+  }
+  if (downtime) {
+    const actions = downtime.schedule.strictness === 'gentle'
+      ? [{ id: DOWNTIME_IGNORE_ACTION, label: `Ignore until ${formatDowntimeEnd(downtime)}` }]
+      : [];
+    return { ...decision, reason: 'downtime', downtime, actions };
+  }
+  if (limit?.level === 'overrun') {
+    const actions = unlockOptions.map(option => ({ id: option.id, label: option.label }));
+    return { ...decision, reason: 'limit', actions };
+  }
+  return null;
+};
+
+const formatDowntimeEnd = (downtime: DowntimeWindow): string => {
+  const end = new Date(downtime.end);
+  return formatDowntimeMinute(end.getHours() * 60 + end.getMinutes());
+};
+
+/**
+ * Shield text for a decision, including how much of the daily limit is left
+ */
+export const buildShieldOptions = (decision: BlockDecision, notice?: string): ShieldOptions => {
+  let detail = `Used today: ${formatTime(decision.timeSpent)}`;
+
+  const limitLabel = decision.category
+    ? `${decision.dailyLimit} min ${decision.category} budget`
+    : `${decision.dailyLimit} min daily limit`;
+
+  if (decision.dailyLimit) {
+    const remaining = Math.max(0, decision.dailyLimit * CONSTANTS.TIME.MINUTE - decision.timeSpent);
+    detail = `${formatTime(remaining)} left of your ${limitLabel} · ${detail}`;
+  }
+
+  let title = `${decision.appName} is blocked`;
+  let message = 'You blocked this app in FOOM. Stay focused and keep earning tokens.';
+
+  if (decision.reason === 'blocked' && decision.category) {
+    message = `You blocked ${decision.category} apps in FOOM. Stay focused and keep earning tokens.`;
+  } else if (decision.reason === 'focus' && decision.focus) {
+    const remaining = Math.max(0, decision.focus.endsAt - Date.now());
+    title = 'Focus session in progress';
+    message = `${decision.appName} isn't on your allow-list. ${formatTime(remaining)} to go.`;
+  } else if (decision.reason === 'downtime' && decision.downtime) {
+    title = decision.downtime.schedule.name;
+    message = `${decision.appName} is paused until ${formatDowntimeEnd(decision.downtime)}.`;
+  } else if (decision.reason === 'limit') {
+    title = `Time's up for ${decision.category || decision.appName}`;
+    message = `You've reached your ${limitLabel}.`;
+  }
+
+  return {
+    packageName: decision.packageName,
+    title,
+    message,
+    detail: notice ? `${notice}\n${detail}` : detail,
+    buttonLabel: 'Go back',
+    actions: decision.actions,
+  };
+};
+
+class BlockingPolicyService {
+  private foregroundPackage: string | null = null;
+  private checkTimer: ReturnType<typeof setTimeout> | null = null;
+  private protectedPackages: Promise<string[]> | null = null;
+
+  /**
+   * Handle a foreground change from the accessibility service. While a
+   * restricted app stays in front, re-check when it reaches its next
+   * limit level or its next downtime window starts.
+   */
+  async onForegroundChange(packageName: string): Promise<BlockDecision | null> {
+    this.clearCheckTimer();
+    this.foregroundPackage = packageName;
+
+    const { blockedApps, categoryLimits, downtimeSchedules } = useScreenTimeStore.getState();
+    const focus = await this.getFocusRestriction(packageName);
+    const category = getAppCategory(packageName);
+    const isTracked =
+      !!focus ||
+      blockedApps.some(app => app.packageName === packageName) ||
+      categoryLimits.some(limit => limit.category === category) ||
+      downtimeSchedules.some(schedule => schedule.enabled && scheduleCoversApp(schedule, packageName));
+    if (!isTracked) return null;
+
+    const limits = await limitEngine.evaluateAppLimits(packageName);
+    // The user may have switched apps while usage was being queried
+    if (this.foregroundPackage !== packageName) return null;
+
+    const decision = this.decide(packageName, limits, focus);
+    if (decision) {
+      await this.shield(decision);
+      return decision;
+    }
+
+    const delays = [
+      ...limits.map(limit => limit.nextLevelIn),
+      getNextDowntimeStart(downtimeSchedules, packageName),
+    ].filter((delay): delay is number => delay !== null);
+
+    if (delays.length > 0) {
+      this.checkTimer = setTimeout(() => {
+        if (this.foregroundPackage === packageName) {
+          this.onForegroundChange(packageName);
+        }
+      }, Math.min(...delays) + CONSTANTS.TIME.SECOND);
+    }
+
+    return null;
+  }
+
+  /**
+   * Handle an action chosen on the shield: ending a focus session,
+   * ignoring a gentle downtime or buying an unlock. On success the shield closes and the app underneath
+   * gets re-evaluated.
+   */
+  async onShieldAction(packageName: string, actionId: string): Promise<void> {
+    if (actionId === FOCUS_ABANDON_ACTION) {
+      // Abandoning closes the shield; anything else restricting the app
+      // is picked up on the next foreground change
+      focusModeService.abandon();
+      return;
+    }
+
+    if (actionId === DOWNTIME_IGNORE_ACTION) {
+      const downtime = this.getDowntime(packageName);
+      if (downtime) {
+        useScreenTimeStore.getState().ignoreDowntime(packageName, downtime.end);
+      }
+      await hideShield();
+      return;
+    }
+
+    // Extend every limit that would shield the app again, not only the one that did
+    const limits = await limitEngine.evaluateAppLimits(packageName);
+    try {
+      if (limits.length > 0) {
+        limitEngine.unlock(limits, actionId, packageName);
+      }
+    } catch (error) {
+      console.error(`Error unlocking ${packageName}:`, error);
+
+      const focus = await this.getFocusRestriction(packageName);
+      const decision = this.decide(packageName, limits, focus);
+      if (decision) {
+        await this.shield(decision, CONSTANTS.ERRORS.INSUFFICIENT_TOKENS);
+      }
+      return;
+    }
+
+    try {
+      await hideShield();
+    } catch (error) {
+      // The unlock is already booked, so this isn't a balance problem
+      console.error(`Error hiding shield for ${packageName}:`, error);
+      await notificationService.notify(
+        'APP_BLOCKING',
+        `Couldn't unblock ${getAppName(packageName)}`,
+        CONSTANTS.ERRORS.SHIELD_DISMISS_FAILED,
+        `shield_${packageName}`
+      );
+    }
+  }
+
+  /**
+   * Blocking needs the accessibility service (to see app switches) and
+   * the overlay permission (to open the shield from the background)
+   */
+  async getSetupStatus(): Promise<BlockerSetupStatus> {
+    if (!isAppBlockerAvailable()) {
+      return { serviceEnabled: false, overlayAllowed: false };
+    }
+
+    try {
+      const [serviceEnabled, overlayAllowed] = await Promise.all([
+        isBlockerServiceEnabled(),
+        canDrawOverlays(),
+      ]);
+      return { serviceEnabled, overlayAllowed };
+    } catch (error) {
+      console.error('Error checking app blocker setup:', error);
+      return { serviceEnabled: false, overlayAllowed: false };
+    }
+  }
+
+  async isEnforcementReady(): Promise<boolean> {
+    const { serviceEnabled, overlayAllowed } = await this.getSetupStatus();
+    return serviceEnabled && overlayAllowed;
+  }
+
+  /**
+   * Open whichever settings page is still missing for enforcement
+   */
+  async openSetup(): Promise<void> {
+    if (!isAppBlockerAvailable()) return;
+
+    if (!(await canDrawOverlays())) {
+      await openOverlaySettings();
+    } else if (!(await isBlockerServiceEnabled())) {
+      await openAccessibilitySettings();
+    }
+  }
+
+  /**
+   * Register the tasks that receive foreground changes and shield actions.
+   * Must be called at module load, before the first render.
+   */
+  registerHeadlessTask(): void {
+    AppRegistry.registerHeadlessTask(FOREGROUND_CHANGE_TASK, () => async (event: ForegroundChangeEvent) => {
+      await ensureStoresHydrated();
+      await this.onForegroundChange(event.packageName);
+    });
+
+    AppRegistry.registerHeadlessTask(SHIELD_ACTION_TASK, () => async (event: ShieldActionEvent) => {
+      await ensureStoresHydrated();
+      await this.onShieldAction(event.packageName, event.actionId);
+    });
+  }
+
+  private decide(
+    packageName: string,
+    limits: LimitEvaluation[],
+    focus: FocusSession | null
+  ): BlockDecision | null {
+    const { blockedApps, categoryLimits, currentDayUsage } = useScreenTimeStore.getState();
+    const limit = mostRestrictive(limits);
+    const category = getAppCategory(packageName);
+    const blockedCategory = categoryLimits.some(c => c.category === category && c.isBlocked) ? category : null;
+
+    return evaluateBlockingPolicy(packageName, {
+      blockedApps,
+      usage: currentDayUsage,
+      limit,
+      unlockOptions: limitEngine.getUnlockOptions(limits),
+      downtime: this.getDowntime(packageName),
+      focus,
+      blockedCategory,
+    });
+  }
+
+  /**
+   * The running focus session, if it doesn't allow this package
+   */
+  private async getFocusRestriction(packageName: string): Promise<FocusSession | null> {
+    const session = focusModeService.getActiveSession();
+    if (!session || focusModeService.isAllowed(session, packageName)) return null;
+
+    if (!this.protectedPackages) {
+      this.protectedPackages = getProtectedPackages().catch(error => {
+        console.error('Error loading protected packages:', error);
+        this.protectedPackages = null;
+        return [];
+      });
+    }
+    const protectedPackages = await this.protectedPackages;
+    return protectedPackages.includes(packageName) ? null : session;
+  }
+
+  /**
+   * The downtime window restricting an app right now, unless the user
+   * chose to ignore it
+   */
+  private getDowntime(packageName: string): DowntimeWindow | null {
+    const { downtimeSchedules, downtimeOverrides } = useScreenTimeStore.getState();
+    const now = Date.now();
+    if ((downtimeOverrides[packageName] || 0) > now) return null;
+
+    return getActiveDowntime(downtimeSchedules, packageName, now);
+  }
+
+  private async shield(decision: BlockDecision, notice?: string): Promise<void> {
+    try {
+      await showShield(buildShieldOptions(decision, notice));
+    } catch (error) {
+      console.error(`Error showing shield for ${decision.packageName}:`, error);
+    }
+  }
+
+  private clearCheckTimer(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+}
+
+export const blockingPolicyService = new BlockingPolicyService();
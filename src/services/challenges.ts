@@ -0,0 +1,397 @@
+import {
+  ChallengeInstance,
+  ChallengePeriod,
+  CustomChallengeParams,
+  useChallengeStore,
+} from '../store/challengeStore';
+import { DailyScreenTime, useScreenTimeStore } from '../store/screenTimeStore';
+import { useFocusStore } from '../store/focusStore';
+import { useWalletStore } from '../store/walletStore';
+import { Challenge, rewardsEngine } from './rewardsEngine';
+import { getAppCategory, getAppName } from './usageSources';
+import { formatDowntimeMinute } from './downtime';
+import { notificationService } from './notifications';
+import { CONSTANTS } from '../utils/constants';
+import { getDayWindow, getTodayDateString, getWeekStartDateString, shiftDateString } from '../utils/dates';
+import { getGoalHours } from '../utils/goals';
+import { generateId } from '../utils/helpers';
+import { asTokens } from '../utils/money';
+
+const CATEGORIES = CONSTANTS.SCREEN_TIME_CATEGORIES;
+const { MIN_STAKE, STAKE_BONUS_RATE, MAX_CUSTOM_DAYS } = CONSTANTS.CHALLENGES;
+const PRODUCTIVE_CATEGORIES: string[] = [CATEGORIES.PRODUCTIVITY, CATEGORIES.EDUCATION];
+
+/**
+ * When a 'category_free_until' challenge is decided: its minute past local
+ * midnight on the tracked date, not past the start of the tracked day
+ */
+const getCategoryFreeCutoff = (challenge: ChallengeInstance): number => {
+  const cutoff = new Date(challenge.startsAt);
+  cutoff.setHours(0, challenge.custom?.untilMinute || 0, 0, 0);
+  return cutoff.getTime();
+};
+
+const getSocialFreeCutoff = (challenge: ChallengeInstance): number => {
+  const cutoff = new Date(challenge.startsAt);
+  cutoff.setHours(CONSTANTS.CHALLENGES.SOCIAL_FREE_UNTIL_HOUR, 0, 0, 0);
+  return cutoff.getTime();
+};
+
+/**
+ * Whether a tracked day stayed free of a category until the cutoff. Judged
+ * from the day's sessions while they are stored, otherwise from its per-app
+ * usage: no use at all keeps it, a last use before the cutoff breaks it.
+ * Undefined when the stored data can't tell, or the cutoff hasn't passed
+ * and nothing has broken it yet.
+ */
+const keptCategoryFree = (date: string, category: string, cutoff: number, now: number): boolean | undefined => {
+  const { dailyScreenTime, currentUsageDate, currentDaySessions } = useScreenTimeStore.getState();
+
+  if (date === currentUsageDate && currentDaySessions.length > 0) {
+    const used = currentDaySessions.some(
+      session => session.startTime < cutoff && getAppCategory(session.packageName) === category
+    );
+    if (used) return false;
+    return now >= cutoff ? true : undefined;
+  }
+
+  const record = dailyScreenTime[date];
+  if (!record || record.unmeasured) return undefined;
+  const apps = record.apps.filter(app => app.category === category && app.timeSpent > 0);
+  if (apps.some(app => app.lastUsed < cutoff)) return false;
+  if (now < cutoff) return undefined;
+  return apps.length === 0 ? true : undefined;
+};
+
+const metGoal = (record: DailyScreenTime | undefined, marginHours: number = 0): boolean =>
+  !!record && !record.unmeasured && record.totalTime <= (getGoalHours(record.date) - marginHours) * CONSTANTS.TIME.HOUR;
+
+class ChallengeService {
+  /**
+   * Issue this period's challenges, update progress from usage and focus
+   * data, pay out the ones that are done and expire the ones that ran out.
+   * Returns the challenges completed by this pass.
+   */
+  refresh(now: number = Date.now()): ChallengeInstance[] {
+    this.issueChallenges();
+
+    const { getChallengesByStatus, updateChallenge } = useChallengeStore.getState();
+    const completed: ChallengeInstance[] = [];
+
+    getChallengesByStatus('active').forEach(challenge => {
+      const currentValue = Math.min(challenge.targetValue, this.measureProgress(challenge, now));
+
+      if (currentValue >= challenge.targetValue) {
+        completed.push(this.complete({ ...challenge, currentValue }, now));
+      } else if (challenge.custom && this.hasFailed(challenge, now)) {
+        this.forfeit({ ...challenge, currentValue });
+      } else if (challenge.custom && now >= challenge.expiresAt) {
+        // Without the data to judge it the stake goes back, not to the loss
+        if (this.isUndecided(challenge, now)) {
+          this.cancel({ ...challenge, currentValue });
+        } else {
+          this.forfeit({ ...challenge, currentValue });
+        }
+      } else if (now >= challenge.expiresAt) {
+        updateChallenge(challenge.instanceId, { currentValue, status: 'expired' });
+      } else if (currentValue !== challenge.currentValue) {
+        updateChallenge(challenge.instanceId, { currentValue });
+      }
+    });
+
+    return completed;
+  }
+
+  /**
+   * Start a user-made challenge tomorrow, holding `stake` tokens from the
+   * balance until it ends. Throws on a bad template, a stake below the
+   * minimum or an insufficient balance.
+   */
+  createCustom(params: CustomChallengeParams, stake: number): ChallengeInstance {
+    if (!Number.isInteger(stake) || stake < MIN_STAKE) {
+      throw new Error(`The stake must be at least ${MIN_STAKE} tokens`);
+    }
+
+    const { title, description, days } = this.describeCustom(params);
+    const firstDay = shiftDateString(getTodayDateString(), 1);
+    const challenge: ChallengeInstance = {
+      id: params.template,
+      title,
+      description,
+      targetValue: params.template === 'days_under_goal' ? days : 1,
+      currentValue: 0,
+      reward: Math.floor(stake * STAKE_BONUS_RATE),
+      isCompleted: false,
+      expiresAt: getDayWindow(shiftDateString(firstDay, days - 1)).end,
+      instanceId: `custom_${generateId()}`,
+      period: 'custom',
+      periodStart: firstDay,
+      startsAt: getDayWindow(firstDay).start,
+      status: 'active',
+      tokensAwarded: 0,
+      custom: params,
+      stake,
+    };
+
+    useWalletStore.getState().stakeTokens(asTokens(stake), `Stake on "${title}"`);
+    useChallengeStore.getState().addChallenges([challenge]);
+    return challenge;
+  }
+
+  private describeCustom(params: CustomChallengeParams): { title: string; description: string; days: number } {
+    switch (params.template) {
+      case 'app_time_under': {
+        const { packageName, minutes } = params;
+        if (!packageName || !minutes || minutes <= 0) {
+          throw new Error('Pick an app and a time limit');
+        }
+        const appName = getAppName(packageName);
+        return {
+          title: `${appName} under ${minutes} min`,
+          description: `Spend less than ${minutes} minutes in ${appName} tomorrow`,
+          days: 1,
+        };
+      }
+
+      case 'category_free_until': {
+        const { category, untilMinute } = params;
+        if (!category || untilMinute === undefined || untilMinute <= 0) {
+          throw new Error('Pick a category and a time');
+        }
+        const until = formatDowntimeMinute(untilMinute);
+        return {
+          title: `No ${category} before ${until}`,
+          description: `Stay off ${category} apps until ${until} tomorrow`,
+          days: 1,
+        };
+      }
+
+      case 'days_under_goal': {
+        const { days } = params;
+        if (!days || !Number.isInteger(days) || days < 1 || days > MAX_CUSTOM_DAYS) {
+          throw new Error(`Pick between 1 and ${MAX_CUSTOM_DAYS} days`);
+        }
+        return {
+          title: `${days} days under goal`,
+          description: `Stay under your daily goal for ${days} days in a row, starting tomorrow`,
+          days,
+        };
+      }
+    }
+  }
+
+  /**
+   * Create today's and this week's challenges if they don't exist yet
+   */
+  private issueChallenges(): void {
+    const today = getTodayDateString();
+    const weekStart = getWeekStartDateString(today);
+    const day = getDayWindow(today);
+    const week = { start: getDayWindow(weekStart).start, end: getDayWindow(shiftDateString(weekStart, 6)).end };
+
+    useChallengeStore.getState().addChallenges([
+      ...rewardsEngine
+        .generateDailyChallenges(day.end)
+        .map(challenge => this.toInstance(challenge, 'daily', today, day.start)),
+      ...rewardsEngine
+        .generateWeeklyChallenges(week.end)
+        .map(challenge => this.toInstance(challenge, 'weekly', weekStart, week.start)),
+    ]);
+  }
+
+  private toInstance(
+    challenge: Challenge,
+    period: ChallengePeriod,
+    periodStart: string,
+    startsAt: number
+  ): ChallengeInstance {
+    return {
+      ...challenge,
+      instanceId: `${challenge.id}_${periodStart}`,
+      period,
+      periodStart,
+      startsAt,
+      status: 'active',
+      tokensAwarded: 0,
+    };
+  }
+
+  /**
+   * Progress toward a challenge's target. Goals that depend on a whole day
+   * only count once that day has closed.
+   */
+  private measureProgress(challenge: ChallengeInstance, now: number): number {
+    const { dailyScreenTime } = useScreenTimeStore.getState();
+    const today = getTodayDateString();
+    const closedRecord = (date: string) => (date < today ? dailyScreenTime[date] : undefined);
+    const weekDates = Array.from({ length: 7 }, (_, index) => shiftDateString(challenge.periodStart, index));
+
+    if (challenge.custom) {
+      if (now < challenge.startsAt) return 0;
+      const { template, category = '', days = 1 } = challenge.custom;
+
+      switch (template) {
+        case 'app_time_under': {
+          // Only a closed, measured day can prove the app stayed under the limit
+          const record = closedRecord(challenge.periodStart);
+          return record && !record.unmeasured && !this.hasFailed(challenge, now) ? 1 : 0;
+        }
+
+        case 'category_free_until':
+          return keptCategoryFree(challenge.periodStart, category, getCategoryFreeCutoff(challenge), now) ? 1 : 0;
+
+        case 'days_under_goal':
+          return Array.from({ length: days }, (_, index) => shiftDateString(challenge.periodStart, index)).filter(
+            date => metGoal(closedRecord(date))
+          ).length;
+      }
+    }
+
+    switch (challenge.id) {
+      case 'social_media_free':
+        return keptCategoryFree(challenge.periodStart, CATEGORIES.SOCIAL_MEDIA, getSocialFreeCutoff(challenge), now)
+          ? 1
+          : 0;
+
+      case 'under_goal_challenge':
+        return metGoal(closedRecord(challenge.periodStart), 1) ? 1 : 0;
+
+      case 'productive_hour': {
+        const record = dailyScreenTime[challenge.periodStart];
+        const productiveTime = (record?.apps || [])
+          .filter(app => PRODUCTIVE_CATEGORIES.includes(app.category))
+          .reduce((total, app) => total + app.timeSpent, 0);
+        return Math.floor(productiveTime / CONSTANTS.TIME.MINUTE);
+      }
+
+      case 'focus_sprint':
+      case 'deep_work_week':
+        return rewardsEngine.applyFocusProgress([challenge], useFocusStore.getState().history)[0].currentValue;
+
+      case 'perfect_week':
+        return weekDates.filter(date => metGoal(closedRecord(date))).length;
+
+      case 'weekend_warrior':
+        // Saturday and Sunday, each against the same day a week earlier
+        return weekDates.slice(5).filter(date => {
+          const record = closedRecord(date);
+          const lastWeek = dailyScreenTime[shiftDateString(date, -7)];
+          return (
+            !!record &&
+            !!lastWeek &&
+            !record.unmeasured &&
+            !lastWeek.unmeasured &&
+            record.totalTime <= lastWeek.totalTime * (1 - CONSTANTS.CHALLENGES.WEEKEND_REDUCTION)
+          );
+        }).length;
+
+      default:
+        return challenge.currentValue;
+    }
+  }
+
+  /**
+   * Whether a custom challenge has already been lost, before it expires
+   */
+  private hasFailed(challenge: ChallengeInstance, now: number): boolean {
+    if (!challenge.custom) return false;
+    const { dailyScreenTime } = useScreenTimeStore.getState();
+    const today = getTodayDateString();
+    const { template, packageName, minutes = 0, category = '', days = 1 } = challenge.custom;
+
+    switch (template) {
+      case 'app_time_under': {
+        const app = dailyScreenTime[challenge.periodStart]?.apps.find(usage => usage.packageName === packageName);
+        return !!app && app.timeSpent > minutes * CONSTANTS.TIME.MINUTE;
+      }
+
+      case 'category_free_until':
+        return keptCategoryFree(challenge.periodStart, category, getCategoryFreeCutoff(challenge), now) === false;
+
+      case 'days_under_goal':
+        return Array.from({ length: days }, (_, index) => shiftDateString(challenge.periodStart, index)).some(
+          date => date < today && !!dailyScreenTime[date] && !metGoal(dailyScreenTime[date])
+        );
+    }
+  }
+
+  /**
+   * Whether an expired custom challenge can't be judged from stored usage,
+   * e.g. a day the usage source has no record of or couldn't measure
+   */
+  private isUndecided(challenge: ChallengeInstance, now: number): boolean {
+    if (!challenge.custom) return false;
+    const { template, category = '' } = challenge.custom;
+
+    switch (template) {
+      case 'app_time_under':
+        return !!useScreenTimeStore.getState().dailyScreenTime[challenge.periodStart]?.unmeasured;
+
+      case 'category_free_until':
+        return keptCategoryFree(challenge.periodStart, category, getCategoryFreeCutoff(challenge), now) === undefined;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Close a custom challenge that can't be judged and give its stake back
+   */
+  private cancel(challenge: ChallengeInstance): void {
+    useChallengeStore.getState().updateChallenge(challenge.instanceId, {
+      currentValue: challenge.currentValue,
+      status: 'expired',
+    });
+
+    if (challenge.stake) {
+      useWalletStore
+        .getState()
+        .releaseStake(asTokens(challenge.stake), `Stake returned: ${challenge.title} (no usage data)`);
+    }
+  }
+
+  /**
+   * Close a lost custom challenge and give up its stake
+   */
+  private forfeit(challenge: ChallengeInstance): void {
+    useChallengeStore.getState().updateChallenge(challenge.instanceId, {
+      currentValue: challenge.currentValue,
+      status: 'failed',
+    });
+
+    if (challenge.stake) {
+      useWalletStore.getState().forfeitStake(asTokens(challenge.stake), `Stake forfeited: ${challenge.title}`);
+    }
+  }
+
+  private complete(challenge: ChallengeInstance, now: number): ChallengeInstance {
+    // A staked challenge pays its stake back plus the bonus agreed up front
+    const tokens = challenge.stake
+      ? challenge.reward
+      : rewardsEngine.calculateChallengeReward({ ...challenge, isCompleted: true });
+    const finished: ChallengeInstance = {
+      ...challenge,
+      isCompleted: true,
+      status: 'completed',
+      completedAt: now,
+      tokensAwarded: tokens,
+    };
+
+    useChallengeStore.getState().updateChallenge(challenge.instanceId, finished);
+    if (challenge.stake) {
+      useWalletStore.getState().releaseStake(asTokens(challenge.stake), `Stake returned: ${challenge.title}`);
+    }
+    useWalletStore.getState().addTokens(asTokens(tokens), undefined, `Challenge completed: ${challenge.title}`);
+    notificationService.notify(
+      'REWARDS',
+      'Challenge complete',
+      `${challenge.title}: you earned ${tokens} tokens.`,
+      `challenge_${challenge.instanceId}`
+    );
+
+    return finished;
+  }
+}
+
+export const challengeService = new ChallengeService();
@@ -0,0 +1,147 @@
+import { DowntimeSchedule, UsageSession } from '../store/screenTimeStore';
+import { getAppCategory } from './usageSources';
+import { CONSTANTS } from '../utils/constants';
+
+export interface DowntimeWindow {
+  schedule: DowntimeSchedule;
+  start: number;
+  end: number;
+}
+
+export interface DowntimeCompliance {
+  windowsTotal: number;
+  windowsRespected: number;
+}
+
+const DAY_MINUTES = 24 * 60;
+
+// Brief slips (a notification tap, a mis-launch) don't break a window
+const VIOLATION_TOLERANCE = CONSTANTS.TIME.MINUTE;
+
+/**
+ * Format minutes after midnight as HH:MM
+ */
+export const formatDowntimeMinute = (minute: number): string => {
+  const hours = Math.floor(minute / 60) % 24;
+  const minutes = minute % 60;
+  return `${hours < 10 ? '0' : ''}${hours}:${minutes < 10 ? '0' : ''}${minutes}`;
+};
+
+/**
+ * Parse HH:MM into minutes after midnight, or null if malformed
+ */
+export const parseDowntimeMinute = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+const getWindowLength = (schedule: DowntimeSchedule): number => {
+  const length = (schedule.endMinute - schedule.startMinute + DAY_MINUTES) % DAY_MINUTES;
+  return length === 0 ? DAY_MINUTES : length;
+};
+
+export const scheduleCoversApp = (schedule: DowntimeSchedule, packageName: string): boolean => {
+  return (
+    schedule.packageNames.includes(packageName) ||
+    schedule.categories.includes(getAppCategory(packageName))
+  );
+};
+
+/**
+ * Concrete windows of a schedule that overlap [rangeStart, rangeEnd),
+ * including one that started the evening before
+ */
+export const getDowntimeWindows = (
+  schedule: DowntimeSchedule,
+  rangeStart: number,
+  rangeEnd: number
+): DowntimeWindow[] => {
+  if (!schedule.enabled) return [];
+
+  const windows: DowntimeWindow[] = [];
+  const length = getWindowLength(schedule) * CONSTANTS.TIME.MINUTE;
+  const cursor = new Date(rangeStart);
+  cursor.setHours(0, 0, 0, 0);
+  cursor.setDate(cursor.getDate() - 1);
+
+  while (cursor.getTime() < rangeEnd) {
+    if (schedule.daysOfWeek.includes(cursor.getDay())) {
+      const start = new Date(cursor);
+      start.setMinutes(schedule.startMinute);
+      const end = start.getTime() + length;
+
+      if (end > rangeStart && start.getTime() < rangeEnd) {
+        windows.push({ schedule, start: start.getTime(), end });
+      }
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return windows;
+};
+
+/**
+ * The window currently restricting an app, preferring strict schedules
+ */
+export const getActiveDowntime = (
+  schedules: DowntimeSchedule[],
+  packageName: string,
+  timestamp: number = Date.now()
+): DowntimeWindow | null => {
+  const active = schedules
+    .filter(schedule => scheduleCoversApp(schedule, packageName))
+    .flatMap(schedule => getDowntimeWindows(schedule, timestamp, timestamp + 1));
+
+  return active.find(window => window.schedule.strictness === 'strict') || active[0] || null;
+};
+
+/**
+ * Milliseconds until the next window restricting an app starts, or null
+ * if none starts within a day
+ */
+export const getNextDowntimeStart = (
+  schedules: DowntimeSchedule[],
+  packageName: string,
+  timestamp: number = Date.now()
+): number | null => {
+  const starts = schedules
+    .filter(schedule => scheduleCoversApp(schedule, packageName))
+    .flatMap(schedule => getDowntimeWindows(schedule, timestamp, timestamp + CONSTANTS.TIME.DAY))
+    .map(window => window.start)
+    .filter(start => start > timestamp);
+
+  return starts.length > 0 ? Math.min(...starts) - timestamp : null;
+};
+
+/**
+ * Count the windows that ended inside [dayStart, dayEnd) and how many of
+ * them had no meaningful use of the apps they cover
+ */
+export const calculateDowntimeCompliance = (
+  schedules: DowntimeSchedule[],
+  sessions: UsageSession[],
+  dayStart: number,
+  dayEnd: number
+): DowntimeCompliance => {
+  const windows = schedules
+    .flatMap(schedule => getDowntimeWindows(schedule, dayStart, dayEnd))
+    .filter(window => window.end <= dayEnd);
+
+  const windowsRespected = windows.filter(window => {
+    const usedTime = sessions
+      .filter(session => scheduleCoversApp(window.schedule, session.packageName))
+      .reduce((total, session) => {
+        const overlap = Math.min(session.endTime, window.end) - Math.max(session.startTime, window.start);
+        return total + Math.max(0, overlap);
+      }, 0);
+
+    return usedTime < VIOLATION_TOLERANCE;
+  }).length;
+
+  return { windowsTotal: windows.length, windowsRespected };
+};
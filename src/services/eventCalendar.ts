@@ -0,0 +1,98 @@
+import { SeasonalEvent, useEventCalendarStore } from '../store/eventCalendarStore';
+import type { RewardBreakdown } from './rewardsEngine';
+import { getRemoteEventCalendar } from '../api/firebase';
+import { CONSTANTS } from '../utils/constants';
+import bundledCalendar from '../data/eventCalendar.json';
+
+const REWARD_TYPES: RewardBreakdown['type'][] = [
+  'base',
+  'streak',
+  'milestone',
+  'challenge',
+  'downtime',
+  'focus',
+  'productivity',
+  'penalty',
+  'event',
+];
+
+const DATE_PATTERN = /^(\d{4}-)?\d{2}-\d{2}$/;
+
+/**
+ * Keep the well-formed entries of a calendar from JSON, or null if it
+ * isn't a list at all
+ */
+export const parseEventCalendar = (raw: unknown): SeasonalEvent[] | null => {
+  if (!Array.isArray(raw)) return null;
+
+  return raw.filter(
+    (event): event is SeasonalEvent =>
+      !!event &&
+      typeof event.id === 'string' &&
+      typeof event.name === 'string' &&
+      typeof event.description === 'string' &&
+      typeof event.start === 'string' &&
+      typeof event.end === 'string' &&
+      DATE_PATTERN.test(event.start) &&
+      // Both ends repeat yearly or neither does
+      event.start.length === event.end.length &&
+      typeof event.multiplier === 'number' &&
+      event.multiplier >= 1 &&
+      Array.isArray(event.eligibleTypes) &&
+      event.eligibleTypes.every((type: unknown) => REWARD_TYPES.includes(type as RewardBreakdown['type']))
+  );
+};
+
+const BUNDLED_EVENTS = parseEventCalendar(bundledCalendar.events) || [];
+
+/**
+ * Whether a local YYYY-MM-DD date falls inside an event. Yearly ranges may
+ * wrap past December into January.
+ */
+export const isEventActiveOn = (event: SeasonalEvent, date: string): boolean => {
+  const value = event.start.length === 5 ? date.slice(5) : date;
+  return event.start <= event.end
+    ? value >= event.start && value <= event.end
+    : value >= event.start || value <= event.end;
+};
+
+class EventCalendarService {
+  private pendingRefresh: Promise<void> | null = null;
+
+  /**
+   * The calendar in effect: the remote override if one was fetched,
+   * otherwise the one bundled with the app
+   */
+  getEvents(): SeasonalEvent[] {
+    return useEventCalendarStore.getState().remoteEvents || BUNDLED_EVENTS;
+  }
+
+  /**
+   * Fetch the remote override at most once per refresh interval. Failures
+   * keep whatever calendar was in use.
+   */
+  refresh(force: boolean = false): Promise<void> {
+    const { fetchedAt } = useEventCalendarStore.getState();
+    if (!force && Date.now() - fetchedAt < CONSTANTS.EVENT_CALENDAR.REFRESH_INTERVAL_MS) {
+      return Promise.resolve();
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.loadRemoteEvents().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async loadRemoteEvents(): Promise<void> {
+    try {
+      const events = parseEventCalendar(await getRemoteEventCalendar());
+      useEventCalendarStore.getState().setRemoteEvents(events);
+    } catch (error) {
+      console.error('Error loading event calendar:', error);
+    }
+  }
+}
+
+export const eventCalendarService = new EventCalendarService();
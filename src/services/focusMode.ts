@@ -0,0 +1,140 @@
+import { FocusSession, useFocusStore } from '../store/focusStore';
+import { useWalletStore } from '../store/walletStore';
+import { rewardsEngine } from './rewardsEngine';
+import { notificationService } from './notifications';
+import { challengeService } from './challenges';
+import { achievementService } from './achievements';
+import { hideShield, isAppBlockerAvailable } from '../native/appBlocker';
+import { CONSTANTS } from '../utils/constants';
+import { generateId } from '../utils/helpers';
+import { asTokens } from '../utils/money';
+
+class FocusModeService {
+  private completionTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Start a session during which every app outside the allow-list is shielded
+   */
+  start(durationMinutes: number, allowedPackages: string[]): FocusSession {
+    if (this.getActiveSession()) {
+      throw new Error('A focus session is already running');
+    }
+
+    const now = Date.now();
+    const session: FocusSession = {
+      id: generateId(),
+      startedAt: now,
+      endsAt: now + durationMinutes * CONSTANTS.TIME.MINUTE,
+      durationMinutes,
+      allowedPackages,
+      status: 'active',
+      tokensEarned: 0,
+    };
+
+    const { startSession, setAllowList } = useFocusStore.getState();
+    startSession(session);
+    setAllowList(allowedPackages);
+    this.scheduleCompletion(session);
+
+    return session;
+  }
+
+  /**
+   * The running session, if any. A session whose time ran out while the
+   * app was closed gets completed here.
+   */
+  getActiveSession(now: number = Date.now()): FocusSession | null {
+    const { activeSession } = useFocusStore.getState();
+    if (activeSession && activeSession.endsAt <= now) {
+      this.complete();
+      return null;
+    }
+    return activeSession;
+  }
+
+  /**
+   * Finish the running session and award its tokens
+   */
+  complete(): FocusSession | null {
+    const { activeSession, finishSession } = useFocusStore.getState();
+    if (!activeSession) return null;
+
+    this.clearCompletionTimer();
+    const reward = rewardsEngine.calculateFocusReward(activeSession.durationMinutes);
+    const session = finishSession('completed', activeSession.endsAt, reward.tokens);
+
+    useWalletStore.getState().addTokens(asTokens(reward.tokens), undefined, reward.description, [reward]);
+    notificationService.notify(
+      'REWARDS',
+      'Focus session complete',
+      `You stayed focused for ${activeSession.durationMinutes} min and earned ${reward.tokens} tokens.`,
+      'focus_session'
+    );
+    this.releaseShield();
+    challengeService.refresh();
+    achievementService.evaluate();
+
+    return session;
+  }
+
+  /**
+   * Give up on the running session. It stays in the history, without tokens.
+   */
+  abandon(): FocusSession | null {
+    const { activeSession, finishSession } = useFocusStore.getState();
+    if (!activeSession) return null;
+
+    this.clearCompletionTimer();
+    const session = finishSession('abandoned', Date.now(), 0);
+    this.releaseShield();
+
+    return session;
+  }
+
+  /**
+   * Whether a package may be used during the session
+   */
+  isAllowed(session: FocusSession, packageName: string): boolean {
+    return (
+      session.allowedPackages.includes(packageName) ||
+      CONSTANTS.FOCUS.ALWAYS_ALLOWED.includes(packageName)
+    );
+  }
+
+  /**
+   * Re-arm the completion timer after the app restarts mid-session
+   */
+  async resume(): Promise<void> {
+    if (!useFocusStore.persist.hasHydrated()) {
+      await useFocusStore.persist.rehydrate();
+    }
+
+    const session = this.getActiveSession();
+    if (session) {
+      this.scheduleCompletion(session);
+    }
+  }
+
+  private scheduleCompletion(session: FocusSession): void {
+    this.clearCompletionTimer();
+    this.completionTimer = setTimeout(
+      () => this.complete(),
+      Math.max(0, session.endsAt - Date.now())
+    );
+  }
+
+  private clearCompletionTimer(): void {
+    if (this.completionTimer) {
+      clearTimeout(this.completionTimer);
+      this.completionTimer = null;
+    }
+  }
+
+  private releaseShield(): void {
+    if (!isAppBlockerAvailable()) return;
+
+    hideShield().catch(error => console.error('Error hiding focus shield:', error));
+  }
+}
+
+export const focusModeService = new FocusModeService();
@@ -0,0 +1,144 @@
+import { ScreenTimeGoal } from '../auth/AuthContext';
+import { GoalChangeSource, GoalProposal, useGoalStore } from '../store/goalStore';
+import { useScreenTimeStore } from '../store/screenTimeStore';
+import { rewardsEngine } from './rewardsEngine';
+import { achievementService } from './achievements';
+import { CONSTANTS } from '../utils/constants';
+import { generateId } from '../utils/helpers';
+import { getTodayDateString, getWeekStartDateString, shiftDateString } from '../utils/dates';
+import { getGoalHours, getScreenTimeGoal } from '../utils/goals';
+
+type WeeklyPerformance = ReturnType<typeof rewardsEngine.calculateWeeklyPerformance>['performance'];
+
+const COACH = CONSTANTS.GOAL_COACH;
+
+const clampHours = (hours: number): number =>
+  Math.min(CONSTANTS.MAX_DAILY_SCREEN_TIME_HOURS, Math.max(CONSTANTS.MIN_DAILY_SCREEN_TIME_HOURS, hours));
+
+const adjustGoal = (goal: ScreenTimeGoal, deltaHours: number): ScreenTimeGoal => ({
+  weekdayHours: clampHours(goal.weekdayHours + deltaHours),
+  weekendHours: clampHours(goal.weekendHours + deltaHours),
+});
+
+const sameGoal = (a: ScreenTimeGoal, b: ScreenTimeGoal): boolean =>
+  a.weekdayHours === b.weekdayHours && a.weekendHours === b.weekendHours;
+
+class GoalCoachService {
+  /**
+   * Look at the weeks completed since the goal last changed and propose a
+   * tighter or looser goal when they show a clear trend. Runs once per week.
+   */
+  evaluate(): GoalProposal | null {
+    const { proposal, lastEvaluatedWeek, setProposal, setLastEvaluatedWeek } = useGoalStore.getState();
+    const thisWeek = getWeekStartDateString(getTodayDateString());
+    if (proposal || lastEvaluatedWeek === thisWeek) {
+      return proposal;
+    }
+    setLastEvaluatedWeek(thisWeek);
+
+    const performances = this.getRecentPerformance(thisWeek);
+    const currentGoal = getScreenTimeGoal();
+    const hasRun = (count: number, performance: WeeklyPerformance) =>
+      performances.length >= count && performances.slice(0, count).every(week => week === performance);
+
+    let next: GoalProposal | null = null;
+    if (hasRun(COACH.TIGHTEN_AFTER_WEEKS, 'excellent')) {
+      next = this.buildProposal('tighten', currentGoal, -COACH.STEP_HOURS,
+        `You beat your goal ${COACH.TIGHTEN_AFTER_WEEKS} weeks in a row. Ready for a tighter target?`);
+    } else if (hasRun(COACH.RELAX_AFTER_WEEKS, 'needs_improvement')) {
+      next = this.buildProposal('relax', currentGoal, COACH.STEP_HOURS,
+        `Your goal has been out of reach for ${COACH.RELAX_AFTER_WEEKS} weeks. A gentler target can help you rebuild momentum.`);
+    }
+
+    if (next) setProposal(next);
+    return next;
+  }
+
+  /**
+   * Record that the proposed goal was applied to the profile
+   */
+  accept(): ScreenTimeGoal | null {
+    const { proposal } = useGoalStore.getState();
+    if (!proposal) return null;
+
+    this.recordChange(proposal.currentGoal, proposal.proposedGoal, 'coach');
+    return proposal.proposedGoal;
+  }
+
+  /**
+   * Dismiss the proposal; the coach waits for fresh weeks before asking again
+   */
+  decline(): void {
+    useGoalStore.getState().markDecided(getWeekStartDateString(getTodayDateString()));
+  }
+
+  /**
+   * Keep a goal change in the history. Weeks before it stop counting
+   * toward proposals.
+   */
+  recordChange(previousGoal: ScreenTimeGoal | null, goal: ScreenTimeGoal, source: GoalChangeSource): void {
+    if (previousGoal && sameGoal(previousGoal, goal)) return;
+
+    useGoalStore.getState().recordGoalChange(
+      {
+        id: generateId(),
+        changedAt: Date.now(),
+        previousGoal,
+        goal,
+        source,
+      },
+      getWeekStartDateString(getTodayDateString())
+    );
+    achievementService.evaluate();
+  }
+
+  /**
+   * Performance of the completed weeks before `thisWeek`, newest first.
+   * Stops at the last goal decision or at a week with too few recorded days.
+   */
+  private getRecentPerformance(thisWeek: string): WeeklyPerformance[] {
+    const { dailyScreenTime } = useScreenTimeStore.getState();
+    const { decidedWeek } = useGoalStore.getState();
+    const weeksNeeded = Math.max(COACH.TIGHTEN_AFTER_WEEKS, COACH.RELAX_AFTER_WEEKS);
+    const performances: WeeklyPerformance[] = [];
+
+    for (let i = 1; i <= weeksNeeded; i++) {
+      const weekStart = shiftDateString(thisWeek, -7 * i);
+      if (decidedWeek && weekStart < decidedWeek) break;
+
+      const records = Array.from({ length: 7 }, (_, day) => dailyScreenTime[shiftDateString(weekStart, day)])
+        .filter(record => !!record && !record.unmeasured);
+      if (records.length < COACH.MIN_DAYS_PER_WEEK) break;
+
+      const { performance } = rewardsEngine.calculateWeeklyPerformance(
+        records.map(record => record.totalTime),
+        records.map(record => getGoalHours(record.date))
+      );
+      performances.push(performance);
+    }
+
+    return performances;
+  }
+
+  private buildProposal(
+    direction: GoalProposal['direction'],
+    currentGoal: ScreenTimeGoal,
+    deltaHours: number,
+    reason: string
+  ): GoalProposal | null {
+    const proposedGoal = adjustGoal(currentGoal, deltaHours);
+    // Already at the floor or ceiling
+    if (sameGoal(proposedGoal, currentGoal)) return null;
+
+    return {
+      id: generateId(),
+      createdAt: Date.now(),
+      direction,
+      currentGoal,
+      proposedGoal,
+      reason,
+    };
+  }
+}
+
+export const goalCoachService = new GoalCoachService();
@@ -0,0 +1,312 @@
+import {
+  AppUsage,
+  BlockedApp,
+  CategoryLimit,
+  LimitExtension,
+  useScreenTimeStore,
+} from '../store/screenTimeStore';
+import { useWalletStore } from '../store/walletStore';
+import { screenTimeService } from './screenTime';
+import { notificationService } from './notifications';
+import { getAppCategory } from './usageSources';
+import { CONSTANTS } from '../utils/constants';
+import { getDayWindow, getTodayDateString } from '../utils/dates';
+import { formatTime } from '../utils/helpers';
+import { asTokens } from '../utils/money';
+
+/**
+ * ok ──80%──▶ warning ──100%──▶ reached ──grace──▶ overrun (shielded)
+ *
+ * Unlocks raise the allowance, which moves an app back down the ladder.
+ */
+export type LimitLevel = 'ok' | 'warning' | 'reached' | 'overrun';
+
+export type LimitScope = 'app' | 'category';
+
+/**
+ * Something with a daily limit: one app, or a category budget shared by its apps
+ */
+export interface LimitTarget {
+  scope: LimitScope;
+  key: string; // identifies the limit in warnings and unlocks; see getLimitKey
+  name: string; // app or category name, for display
+  dailyLimit?: number; // in minutes
+}
+
+export interface LimitEvaluation {
+  scope: LimitScope;
+  key: string;
+  name: string;
+  dailyLimit: number; // in minutes
+  allowance: number; // in milliseconds, limit plus today's unlocks
+  timeSpent: number; // in milliseconds
+  remaining: number; // in milliseconds until the allowance runs out
+  level: LimitLevel;
+  nextLevelIn: number | null; // in milliseconds of further use, null once overrun
+}
+
+export interface UnlockOption {
+  id: string;
+  minutes: number;
+  tokens: number;
+  label: string;
+}
+
+const LEVEL_ORDER: LimitLevel[] = ['ok', 'warning', 'reached', 'overrun'];
+
+/**
+ * App limits are keyed by package name, category budgets by category
+ */
+export const getLimitKey = (scope: LimitScope, id: string): string => {
+  return scope === 'category' ? `category:${id}` : id;
+};
+
+const toAppTarget = (app: BlockedApp): LimitTarget => ({
+  scope: 'app',
+  key: getLimitKey('app', app.packageName),
+  name: app.appName,
+  dailyLimit: app.dailyLimit,
+});
+
+const toCategoryTarget = (limit: CategoryLimit): LimitTarget => ({
+  scope: 'category',
+  key: getLimitKey('category', limit.category),
+  name: limit.category,
+  dailyLimit: limit.dailyLimit,
+});
+
+/**
+ * Today's usage rolled up by category, in milliseconds
+ */
+export const getCategoryUsage = (usage: AppUsage[]): Record<string, number> => {
+  return usage.reduce<Record<string, number>>((totals, app) => {
+    const category = getAppCategory(app.packageName);
+    totals[category] = (totals[category] || 0) + app.timeSpent;
+    return totals;
+  }, {});
+};
+
+/**
+ * Place a limit target on the ladder. Returns null for targets without a limit.
+ */
+export const evaluateLimit = (
+  target: LimitTarget,
+  timeSpent: number,
+  extension?: LimitExtension
+): LimitEvaluation | null => {
+  if (!target.dailyLimit) return null;
+
+  const { WARNING_THRESHOLD, GRACE_MINUTES } = CONSTANTS.APP_LIMITS;
+  const allowance = (target.dailyLimit + (extension?.extraMinutes || 0)) * CONSTANTS.TIME.MINUTE;
+  const warningAt = allowance * WARNING_THRESHOLD;
+  const overrunAt = allowance + GRACE_MINUTES * CONSTANTS.TIME.MINUTE;
+
+  let level: LimitLevel = 'ok';
+  let nextLevelAt: number | null = warningAt;
+
+  if (timeSpent >= overrunAt) {
+    level = 'overrun';
+    nextLevelAt = null;
+  } else if (timeSpent >= allowance) {
+    level = 'reached';
+    nextLevelAt = overrunAt;
+  } else if (timeSpent >= warningAt) {
+    level = 'warning';
+    nextLevelAt = allowance;
+  }
+
+  return {
+    scope: target.scope,
+    key: target.key,
+    name: target.name,
+    dailyLimit: target.dailyLimit,
+    allowance,
+    timeSpent,
+    remaining: Math.max(0, allowance - timeSpent),
+    level,
+    nextLevelIn: nextLevelAt === null ? null : nextLevelAt - timeSpent,
+  };
+};
+
+/**
+ * The limit that binds first: the higher level, then the least time remaining
+ */
+export const mostRestrictive = (evaluations: LimitEvaluation[]): LimitEvaluation | null => {
+  return evaluations.reduce<LimitEvaluation | null>((worst, evaluation) => {
+    if (!worst) return evaluation;
+
+    const levelDiff = LEVEL_ORDER.indexOf(evaluation.level) - LEVEL_ORDER.indexOf(worst.level);
+    if (levelDiff !== 0) return levelDiff > 0 ? evaluation : worst;
+    return evaluation.remaining < worst.remaining ? evaluation : worst;
+  }, null);
+};
+
+/**
+ * Unlocks on offer: the free minute until it's used, then the paid ones
+ */
+export const getUnlockOptions = (freeMinuteUsed: boolean = false): UnlockOption[] => {
+  const { FREE_UNLOCK_MINUTES, PAID_UNLOCKS } = CONSTANTS.APP_LIMITS;
+  const options: UnlockOption[] = [];
+
+  if (!freeMinuteUsed) {
+    options.push({
+      id: 'free_minute',
+      minutes: FREE_UNLOCK_MINUTES,
+      tokens: 0,
+      label: 'One more minute',
+    });
+  }
+
+  PAID_UNLOCKS.forEach(unlock => {
+    options.push({
+      id: `unlock_${unlock.minutes}`,
+      minutes: unlock.minutes,
+      tokens: unlock.tokens,
+      label: `${unlock.minutes} more min · ${unlock.tokens} tokens`,
+    });
+  });
+
+  return options;
+};
+
+class LimitEngine {
+  /**
+   * Evaluate every app limit and category budget against today's usage
+   * and send any warnings not yet sent today
+   */
+  async check(usage: AppUsage[]): Promise<LimitEvaluation[]> {
+    const { blockedApps, categoryLimits, limitExtensions } = useScreenTimeStore.getState();
+    const categoryUsage = getCategoryUsage(usage);
+    const evaluations: LimitEvaluation[] = [];
+
+    const targets = [
+      ...blockedApps.map(app => ({
+        target: toAppTarget(app),
+        timeSpent: usage.find(u => u.packageName === app.packageName)?.timeSpent || 0,
+      })),
+      ...categoryLimits.map(limit => ({
+        target: toCategoryTarget(limit),
+        timeSpent: categoryUsage[limit.category] || 0,
+      })),
+    ];
+
+    for (const { target, timeSpent } of targets) {
+      const evaluation = evaluateLimit(target, timeSpent, limitExtensions[target.key]);
+      if (!evaluation) continue;
+
+      await this.warn(evaluation);
+      evaluations.push(evaluation);
+    }
+
+    return evaluations;
+  }
+
+  /**
+   * Evaluate the limits on one app (its own and its category's) against a
+   * fresh usage query, for decisions made the moment it comes to the
+   * foreground. mostRestrictive picks the one that binds first.
+   */
+  async evaluateAppLimits(packageName: string): Promise<LimitEvaluation[]> {
+    const { blockedApps, categoryLimits, limitExtensions } = useScreenTimeStore.getState();
+    const app = blockedApps.find(blocked => blocked.packageName === packageName);
+    const categoryLimit = categoryLimits.find(limit => limit.category === getAppCategory(packageName));
+    const appTarget = app ? toAppTarget(app) : null;
+    const categoryTarget = categoryLimit ? toCategoryTarget(categoryLimit) : null;
+    if (!appTarget?.dailyLimit && !categoryTarget?.dailyLimit) return [];
+
+    const { start } = getDayWindow(getTodayDateString());
+    const usage = await screenTimeService.getUsage(start, Date.now());
+
+    const evaluations: LimitEvaluation[] = [];
+    if (appTarget) {
+      const timeSpent = usage.find(u => u.packageName === packageName)?.timeSpent || 0;
+      const evaluation = evaluateLimit(appTarget, timeSpent, limitExtensions[appTarget.key]);
+      if (evaluation) evaluations.push(evaluation);
+    }
+    if (categoryTarget) {
+      const timeSpent = getCategoryUsage(usage)[categoryTarget.name] || 0;
+      const evaluation = evaluateLimit(categoryTarget, timeSpent, limitExtensions[categoryTarget.key]);
+      if (evaluation) evaluations.push(evaluation);
+    }
+
+    for (const evaluation of evaluations) {
+      await this.warn(evaluation);
+    }
+    return evaluations;
+  }
+
+  /**
+   * Unlocks on offer for an app's limits. The free minute is only offered
+   * while none of the used-up ones has had it.
+   */
+  getUnlockOptions(limits: LimitEvaluation[]): UnlockOption[] {
+    const { limitExtensions } = useScreenTimeStore.getState();
+    return getUnlockOptions(
+      limits.some(limit => limit.remaining === 0 && limitExtensions[limit.key]?.freeMinuteUsed)
+    );
+  }
+
+  /**
+   * Add extra minutes to today's allowance for every limit on an app that
+   * would run out before those minutes do, so an app over both its own
+   * limit and its category budget isn't shielded again right after the
+   * unlock. It is recorded as one 'unlock' transaction against the app,
+   * the free one for zero tokens; throws if the balance is too low.
+   */
+  unlock(limits: LimitEvaluation[], optionId: string, packageName: string): UnlockOption {
+    const option = this.getUnlockOptions(limits).find(o => o.id === optionId);
+    if (!option) {
+      throw new Error(`Unlock option ${optionId} is not available`);
+    }
+
+    const extended = limits.filter(limit => limit.remaining < option.minutes * CONSTANTS.TIME.MINUTE);
+    if (extended.length === 0) {
+      throw new Error(`No limit on ${packageName} needs unlocking`);
+    }
+
+    const names = extended.map(limit => limit.name).join(' and ');
+    const description =
+      option.tokens > 0
+        ? `Unlocked ${names} for ${option.minutes} more minutes`
+        : `Used the free minute on ${names}`;
+    useWalletStore.getState().deductTokens(asTokens(option.tokens), 'unlock', description, {
+      relatedApp: packageName,
+    });
+
+    const { extendLimit } = useScreenTimeStore.getState();
+    extended.forEach(limit => extendLimit(limit.key, option.minutes, option.tokens === 0));
+    return option;
+  }
+
+  private async warn(evaluation: LimitEvaluation): Promise<void> {
+    const { limitWarningsSent, markLimitWarningSent } = useScreenTimeStore.getState();
+    const { key, name, scope } = evaluation;
+    const sent = limitWarningsSent[key];
+    const subject = scope === 'category' ? `${name} apps` : name;
+    const blocked = scope === 'category' ? 'They' : 'It';
+    // Unlocks raise the limit the user is working against
+    const limitMinutes = Math.round(evaluation.allowance / CONSTANTS.TIME.MINUTE);
+
+    if (evaluation.level === 'warning' && !sent) {
+      markLimitWarningSent(key, 'warning');
+      await notificationService.notify(
+        'SCREEN_TIME',
+        `${name}: ${formatTime(evaluation.remaining)} left`,
+        `You've used ${Math.round(CONSTANTS.APP_LIMITS.WARNING_THRESHOLD * 100)}% of your ${limitMinutes} min limit today.`,
+        `limit_${key}`
+      );
+    } else if ((evaluation.level === 'reached' || evaluation.level === 'overrun') && sent !== 'reached') {
+      markLimitWarningSent(key, 'reached');
+      await notificationService.notify(
+        'APP_BLOCKING',
+        `${name} limit reached`,
+        evaluation.level === 'reached'
+          ? `You've used ${subject} for ${limitMinutes} minutes today. ${blocked} will be blocked in ${CONSTANTS.APP_LIMITS.GRACE_MINUTES} min.`
+          : `You've used ${subject} for ${limitMinutes} minutes today. ${blocked} ${scope === 'category' ? 'are' : 'is'} now blocked.`,
+        `limit_${key}`
+      );
+    }
+  }
+}
+
+export const limitEngine = new LimitEngine();
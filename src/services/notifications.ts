@@ -0,0 +1,60 @@
+import notifee, { AndroidImportance } from '@notifee/react-native';
+import { CONSTANTS } from '../utils/constants';
+
+export type NotificationChannelKey = keyof typeof CONSTANTS.NOTIFICATION_CHANNELS;
+
+class NotificationService {
+  private channelsCreated = false;
+
+  /**
+   * Create the Android channels listed in CONSTANTS.NOTIFICATION_CHANNELS
+   */
+  async ensureChannels(): Promise<void> {
+    if (this.channelsCreated) return;
+
+    await Promise.all(
+      Object.values(CONSTANTS.NOTIFICATION_CHANNELS).map(channel =>
+        notifee.createChannel({
+          id: channel.id,
+          name: channel.name,
+          description: channel.description,
+          importance: channel.importance === 'high' ? AndroidImportance.HIGH : AndroidImportance.DEFAULT,
+        })
+      )
+    );
+    this.channelsCreated = true;
+  }
+
+  async requestPermission(): Promise<void> {
+    await notifee.requestPermission();
+  }
+
+  /**
+   * Show a notification. Reusing an id replaces the earlier notification.
+   */
+  async notify(
+    channel: NotificationChannelKey,
+    title: string,
+    body: string,
+    id?: string
+  ): Promise<void> {
+    if (!CONSTANTS.FEATURES.PUSH_NOTIFICATIONS) return;
+
+    try {
+      await this.ensureChannels();
+      await notifee.displayNotification({
+        id,
+        title,
+        body,
+        android: {
+          channelId: CONSTANTS.NOTIFICATION_CHANNELS[channel].id,
+          pressAction: { id: 'default' },
+        },
+      });
+    } catch (error) {
+      console.error('Error showing notification:', error);
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -1,4 +1,9 @@
 import { CONSTANTS } from '../utils/constants';
+import { DowntimeCompliance } from './downtime';
+import { FocusSession } from '../store/focusStore';
+import { SeasonalEvent } from '../store/eventCalendarStore';
+import { eventCalendarService, isEventActiveOn } from './eventCalendar';
+import { formatLocalDate } from '../utils/dates';
 
 export interface RewardCalculation {
   tokensEarned: number;
@@ -10,9 +15,43 @@ export interface RewardCalculation {
 }
 
 export interface RewardBreakdown {
-  type: 'base' | 'streak' | 'milestone' | 'challenge';
+  type:
+    | 'base'
+    | 'streak'
+    | 'milestone'
+    | 'challenge'
+    | 'downtime'
+    | 'focus'
+    | 'productivity'
+    | 'penalty'
+    | 'event';
   description: string;
-  tokens: number;
+  tokens: number; // negative for penalties
+}
+
+export interface CategorizedAppUsage {
+  packageName: string;
+  timeSpent: number;
+  category: string;
+}
+
+export interface RewardEvent {
+  eventName: string;
+  bonusMultiplier: number;
+  description: string;
+  eligibleTypes: RewardBreakdown['type'][];
+}
+
+/**
+ * Everything that goes into a day's reward
+ */
+export interface RewardInput {
+  screenTimeMs: number;
+  goalHours?: number; // the user's goal; the app default when unset
+  currentStreak?: number; // goal-met days before this one
+  event?: RewardEvent | null; // multiplies the day's earnings
+  appUsage?: CategorizedAppUsage[]; // for category bonuses and penalties
+  downtime?: DowntimeCompliance;
 }
 
 export interface WeeklyStreak {
@@ -32,18 +71,28 @@ export interface Challenge {
   expiresAt: number;
 }
 
+// How far back each focus challenge counts sessions from its expiry
+const FOCUS_CHALLENGE_PERIODS: Record<string, number> = {
+  focus_sprint: CONSTANTS.TIME.DAY,
+  deep_work_week: CONSTANTS.TIME.WEEK,
+};
+
 class RewardsEngine {
   private readonly BASE_TOKENS_PER_HOUR = CONSTANTS.TOKENS_PER_HOUR_SAVED;
   private readonly DAILY_GOAL_HOURS = CONSTANTS.DAILY_SCREEN_TIME_GOAL_HOURS;
 
   /**
-   * Calculate tokens earned based on screen time vs goal
+   * Evaluate a day's reward. Every token amount shown or credited for
+   * screen time comes from here.
    */
-  calculateDailyReward(
-    screenTimeMs: number,
-    goalHours: number = this.DAILY_GOAL_HOURS,
-    currentStreak: number = 0
-  ): RewardCalculation {
+  calculateDailyReward({
+    screenTimeMs,
+    goalHours = this.DAILY_GOAL_HOURS,
+    currentStreak = 0,
+    event,
+    appUsage = [],
+    downtime,
+  }: RewardInput): RewardCalculation {
     const screenTimeHours = screenTimeMs / CONSTANTS.TIME.HOUR;
     const hoursUnderGoal = Math.max(0, goalHours - screenTimeHours);
     const dailyGoalMet = screenTimeHours <= goalHours;
@@ -84,16 +133,76 @@ class RewardsEngine {
       totalTokens += milestoneBonus;
     }
     
+    // Downtime windows kept
+    if (downtime && downtime.windowsRespected > 0) {
+      const downtimeTokens = downtime.windowsRespected * CONSTANTS.DOWNTIME_TOKENS_PER_WINDOW;
+      breakdown.push({
+        type: 'downtime',
+        description: `Downtime respected (${downtime.windowsRespected}/${downtime.windowsTotal})`,
+        tokens: downtimeTokens,
+      });
+      totalTokens += downtimeTokens;
+    }
+    
+    // Productive apps and heavy social media
+    const { productiveAppBonus, socialMediaPenalty } = this.calculateAppSpecificRewards(appUsage);
+    if (productiveAppBonus > 0) {
+      breakdown.push({
+        type: 'productivity',
+        description: 'Productive app bonus',
+        tokens: productiveAppBonus,
+      });
+      totalTokens += productiveAppBonus;
+    }
+    if (socialMediaPenalty > 0) {
+      breakdown.push({
+        type: 'penalty',
+        description: 'Social media over 2 hours',
+        tokens: -socialMediaPenalty,
+      });
+      totalTokens -= socialMediaPenalty;
+    }
+    
+    // Seasonal events multiply the lines they cover
+    if (event && event.bonusMultiplier > 1 && totalTokens > 0) {
+      const eligibleTokens = breakdown
+        .filter(item => event.eligibleTypes.includes(item.type))
+        .reduce((sum, item) => sum + item.tokens, 0);
+      const eventTokens = Math.floor(Math.max(0, eligibleTokens) * (event.bonusMultiplier - 1));
+      if (eventTokens > 0) {
+        breakdown.push({
+          type: 'event',
+          description: `${event.eventName} (x${event.bonusMultiplier})`,
+          tokens: eventTokens,
+        });
+        totalTokens += eventTokens;
+      }
+    }
+    
     return {
       tokensEarned: baseTokens,
       hoursUnderGoal,
       dailyGoalMet,
       streakBonus,
-      totalReward: totalTokens,
+      totalReward: Math.max(0, totalTokens),
       breakdown,
     };
   }
   
+  /**
+   * Tokens for a completed focus session
+   */
+  calculateFocusReward(durationMinutes: number): RewardBreakdown {
+    const tokens =
+      Math.floor(durationMinutes / CONSTANTS.FOCUS.MINUTES_PER_TOKEN) + CONSTANTS.FOCUS.COMPLETION_BONUS;
+
+    return {
+      type: 'focus',
+      description: `${durationMinutes} min focus session`,
+      tokens,
+    };
+  }
+  
   /**
    * Calculate bonus tokens for maintaining streaks
    */
@@ -135,9 +244,13 @@ class RewardsEngine {
   }
   
   /**
-   * Calculate weekly performance summary
+   * Calculate weekly performance summary. goalHours may list one goal per
+   * day when weekdays and weekends differ.
    */
-  calculateWeeklyPerformance(dailyScreenTimes: number[]): {
+  calculateWeeklyPerformance(
+    dailyScreenTimes: number[],
+    goalHours: number | number[] = this.DAILY_GOAL_HOURS
+  ): {
     totalTokensEarned: number;
     averageScreenTime: number;
     goalsMetCount: number;
@@ -160,8 +273,9 @@ class RewardsEngine {
     let longestStreak = 0;
     let tempStreak = 0;
     
-    for (const screenTimeMs of dailyScreenTimes) {
-      const reward = this.calculateDailyReward(screenTimeMs, this.DAILY_GOAL_HOURS, tempStreak);
+    dailyScreenTimes.forEach((screenTimeMs, index) => {
+      const dayGoalHours = Array.isArray(goalHours) ? goalHours[index] ?? this.DAILY_GOAL_HOURS : goalHours;
+      const reward = this.calculateDailyReward({ screenTimeMs, goalHours: dayGoalHours, currentStreak: tempStreak });
       totalTokens += reward.totalReward;
       
       if (reward.dailyGoalMet) {
@@ -171,7 +285,7 @@ class RewardsEngine {
       } else {
         tempStreak = 0;
       }
-    }
+    });
     
     currentStreak = tempStreak;
     const averageScreenTime = dailyScreenTimes.reduce((sum, time) => sum + time, 0) / dailyScreenTimes.length;
@@ -198,12 +312,9 @@ class RewardsEngine {
   }
   
   /**
-   * Generate daily challenges for users
+   * Generate daily challenges for users, expiring at `tomorrow`
    */
-  generateDailyChallenges(): Challenge[] {
-    const now = Date.now();
-    const tomorrow = now + CONSTANTS.TIME.DAY;
-    
+  generateDailyChallenges(tomorrow: number = Date.now() + CONSTANTS.TIME.DAY): Challenge[] {
     return [
       {
         id: 'social_media_free',
@@ -225,6 +336,16 @@ class RewardsEngine {
         isCompleted: false,
         expiresAt: tomorrow,
       },
+      {
+        id: 'focus_sprint',
+        title: 'Focus Sprint',
+        description: 'Complete a focus session',
+        targetValue: 1,
+        currentValue: 0,
+        reward: 10,
+        isCompleted: false,
+        expiresAt: tomorrow,
+      },
       {
         id: 'productive_hour',
         title: 'One Productive Hour',
@@ -239,12 +360,9 @@ class RewardsEngine {
   }
   
   /**
-   * Generate weekly challenges
+   * Generate weekly challenges, expiring at `nextWeek`
    */
-  generateWeeklyChallenges(): Challenge[] {
-    const now = Date.now();
-    const nextWeek = now + (7 * CONSTANTS.TIME.DAY);
-    
+  generateWeeklyChallenges(nextWeek: number = Date.now() + 7 * CONSTANTS.TIME.DAY): Challenge[] {
     return [
       {
         id: 'perfect_week',
@@ -256,6 +374,16 @@ class RewardsEngine {
         isCompleted: false,
         expiresAt: nextWeek,
       },
+      {
+        id: 'deep_work_week',
+        title: 'Deep Work Week',
+        description: 'Complete 5 focus sessions this week',
+        targetValue: 5,
+        currentValue: 0,
+        reward: 40,
+        isCompleted: false,
+        expiresAt: nextWeek,
+      },
       {
         id: 'weekend_warrior',
         title: 'Weekend Warrior',
@@ -269,6 +397,24 @@ class RewardsEngine {
     ];
   }
   
+  /**
+   * Fill in progress on focus challenges from the focus session history
+   */
+  applyFocusProgress(challenges: Challenge[], sessions: FocusSession[]): Challenge[] {
+    return challenges.map(challenge => {
+      const period = FOCUS_CHALLENGE_PERIODS[challenge.id];
+      if (!period) return challenge;
+
+      const since = challenge.expiresAt - period;
+      const completed = sessions.filter(
+        session => session.status === 'completed' && (session.endedAt || 0) >= since
+      ).length;
+      const currentValue = Math.min(challenge.targetValue, completed);
+
+      return { ...challenge, currentValue, isCompleted: currentValue >= challenge.targetValue };
+    });
+  }
+  
   /**
    * Calculate bonus for completing challenges
    */
@@ -312,15 +458,15 @@ class RewardsEngine {
     hoursToMaxReward: number;
     maxPossibleTokens: number;
   } {
-    const currentReward = this.calculateDailyReward(currentScreenTimeMs, goalHours);
+    const currentReward = this.calculateDailyReward({ screenTimeMs: currentScreenTimeMs, goalHours });
     
     // Calculate potential if user stops using devices now
     const hoursToMaxReward = Math.max(0, goalHours);
-    const maxPossibleTokens = hoursToMaxReward * this.BASE_TOKENS_PER_HOUR;
+    const maxPossibleTokens = this.calculateDailyReward({ screenTimeMs: 0, goalHours }).tokensEarned;
     
     // Calculate what they could earn if they meet their goal
     const goalScreenTimeMs = goalHours * CONSTANTS.TIME.HOUR;
-    const potentialReward = this.calculateDailyReward(goalScreenTimeMs, goalHours);
+    const potentialReward = this.calculateDailyReward({ screenTimeMs: goalScreenTimeMs, goalHours });
     
     return {
       currentTokens: currentReward.totalReward,
@@ -333,11 +479,7 @@ class RewardsEngine {
   /**
    * Calculate app-specific rewards and penalties
    */
-  calculateAppSpecificRewards(appUsage: Array<{
-    packageName: string;
-    timeSpent: number;
-    category: string;
-  }>): {
+  calculateAppSpecificRewards(appUsage: CategorizedAppUsage[]): {
     productiveAppBonus: number;
     socialMediaPenalty: number;
     categoryBreakdown: Record<string, number>;
@@ -376,15 +518,16 @@ class RewardsEngine {
    */
   generateRecommendations(screenTimeData: {
     dailyScreenTimes: number[];
-    appUsage: Array<{packageName: string; timeSpent: number; category: string}>;
+    appUsage: CategorizedAppUsage[];
     currentStreak: number;
+    goalHours?: number;
   }): string[] {
     const recommendations: string[] = [];
     const avgScreenTime = screenTimeData.dailyScreenTimes.reduce((a, b) => a + b, 0) / screenTimeData.dailyScreenTimes.length;
     const avgHours = avgScreenTime / CONSTANTS.TIME.HOUR;
 
     // Screen time recommendations
-    if (avgHours > this.DAILY_GOAL_HOURS + 2) {
+    if (avgHours > (screenTimeData.goalHours ?? this.DAILY_GOAL_HOURS) + 2) {
       recommendations.push('Try reducing screen time by 1 hour daily for better rewards');
     }
 
@@ -417,35 +560,26 @@ class RewardsEngine {
   }
 
   /**
-   * Calculate seasonal/event bonuses
+   * Find the seasonal event running on a date. When events overlap the
+   * largest multiplier wins.
    */
-  calculateEventBonus(date: Date = new Date()): {
-    eventName: string;
-    bonusMultiplier: number;
-    description: string;
-  } | null {
-    const month = date.getMonth();
-    const day = date.getDate();
+  calculateEventBonus(
+    date: Date = new Date(),
+    events: SeasonalEvent[] = eventCalendarService.getEvents()
+  ): RewardEvent | null {
+    const day = formatLocalDate(date);
+    const active = events
+      .filter(event => isEventActiveOn(event, day))
+      .sort((a, b) => b.multiplier - a.multiplier)[0];
 
-    // New Year resolution boost
-    if (month === 0 && day <= 31) {
-      return {
-        eventName: 'New Year Resolution',
-        bonusMultiplier: 1.5,
-        description: 'Double rewards for building healthy habits in January!',
-      };
-    }
+    if (!active) return null;
 
-    // Back to school focus (September)
-    if (month === 8) {
-      return {
-        eventName: 'Focus Month',
-        bonusMultiplier: 1.25,
-        description: 'Extra rewards for staying focused during back-to-school season!',
-      };
-    }
-
-    return null;
+    return {
+      eventName: active.name,
+      bonusMultiplier: active.multiplier,
+      description: active.description,
+      eligibleTypes: active.eligibleTypes,
+    };
   }
 }
 
@@ -1,5 +1,8 @@
 import { CONSTANTS } from '../utils/constants';
 import { SavingsGoal } from '../store/walletStore';
+import { rewardsEngine } from './rewardsEngine';
+import { getGoalHours } from '../utils/goals';
+import { asKES, asTokens, kesToTokens, tokensToKES } from '../utils/money';
 
 export interface SavingsProjection {
   timeToGoal: number; // in days
@@ -43,7 +46,7 @@ class SavingsSimulator {
     const amountNeeded = Math.max(0, goalAmount - currentSavings);
     
     // Convert daily tokens to KES
-    const dailyKESFromTokens = averageDailyTokens * CONSTANTS.KES_PER_TOKEN;
+    const dailyKESFromTokens = tokensToKES(asTokens(averageDailyTokens));
     const monthlyKESFromTokens = dailyKESFromTokens * 30;
     
     // Calculate required savings
@@ -127,20 +130,24 @@ class SavingsSimulator {
   calculateScreenTimeToSavings(
     currentScreenTimeHours: number,
     targetScreenTimeHours: number,
-    dailyGoalHours: number = CONSTANTS.DAILY_SCREEN_TIME_GOAL_HOURS
+    dailyGoalHours: number = getGoalHours()
   ): ScreenTimeToSavings {
     // Calculate tokens earned at current screen time
-    const currentHoursUnderGoal = Math.max(0, dailyGoalHours - currentScreenTimeHours);
-    const currentDailyTokens = currentHoursUnderGoal * CONSTANTS.TOKENS_PER_HOUR_SAVED;
+    const currentDailyTokens = rewardsEngine.calculateDailyReward({
+      screenTimeMs: currentScreenTimeHours * CONSTANTS.TIME.HOUR,
+      goalHours: dailyGoalHours,
+    }).totalReward;
     
     // Calculate tokens earned at target screen time
-    const targetHoursUnderGoal = Math.max(0, dailyGoalHours - targetScreenTimeHours);
-    const targetDailyTokens = targetHoursUnderGoal * CONSTANTS.TOKENS_PER_HOUR_SAVED;
+    const targetDailyTokens = rewardsEngine.calculateDailyReward({
+      screenTimeMs: targetScreenTimeHours * CONSTANTS.TIME.HOUR,
+      goalHours: dailyGoalHours,
+    }).totalReward;
     
     // Calculate potential increase
     const dailyTokensPotential = Math.max(0, targetDailyTokens - currentDailyTokens);
     const monthlyTokensPotential = dailyTokensPotential * 30;
-    const monthlyKESEquivalent = monthlyTokensPotential * CONSTANTS.KES_PER_TOKEN;
+    const monthlyKESEquivalent = tokensToKES(asTokens(monthlyTokensPotential));
     const annualSavingsPotential = monthlyKESEquivalent * 12;
     
     return {
@@ -156,7 +163,10 @@ class SavingsSimulator {
   /**
    * Simulate different screen time reduction scenarios
    */
-  generateScreenTimeScenarios(currentScreenTimeHours: number): {
+  generateScreenTimeScenarios(
+    currentScreenTimeHours: number,
+    dailyGoalHours: number = getGoalHours()
+  ): {
     scenario: string;
     targetHours: number;
     dailyTokens: number;
@@ -182,14 +192,14 @@ class SavingsSimulator {
       },
       {
         scenario: 'Meet Daily Goal',
-        reduction: Math.max(0, currentScreenTimeHours - CONSTANTS.DAILY_SCREEN_TIME_GOAL_HOURS),
+        reduction: Math.max(0, currentScreenTimeHours - dailyGoalHours),
         difficulty: currentScreenTimeHours > 10 ? 'hard' : 'medium' as const,
       },
     ];
 
     return scenarios.map(({ scenario, reduction, difficulty }) => {
       const targetHours = Math.max(1, currentScreenTimeHours - reduction);
-      const savings = this.calculateScreenTimeToSavings(currentScreenTimeHours, targetHours);
+      const savings = this.calculateScreenTimeToSavings(currentScreenTimeHours, targetHours, dailyGoalHours);
       
       return {
         scenario,
@@ -221,7 +231,7 @@ class SavingsSimulator {
       returns: number;
     }>;
   } {
-    const monthlyKESContribution = monthlyTokenContribution * CONSTANTS.KES_PER_TOKEN;
+    const monthlyKESContribution = tokensToKES(asTokens(monthlyTokenContribution));
     const monthlyRate = averageMMFRate / 100 / 12;
     const totalMonths = years * 12;
     
@@ -304,8 +314,8 @@ class SavingsSimulator {
         return a.urgency - b.urgency;
       });
 
-    const monthlyKES = monthlyTokens * CONSTANTS.KES_PER_TOKEN;
-    let remainingKES = monthlyKES;
+    const monthlyKES = tokensToKES(asTokens(monthlyTokens));
+    let remainingKES: number = monthlyKES;
     let totalAllocatedTokens = 0;
     
     const allocation = prioritizedGoals.map(goal => {
@@ -321,8 +331,8 @@ class SavingsSimulator {
         recommendedKES = Math.min(remainingKES, monthlyNeed * 0.5);
       }
       
-      const recommendedTokens = Math.floor(recommendedKES / CONSTANTS.KES_PER_TOKEN);
-      recommendedKES = recommendedTokens * CONSTANTS.KES_PER_TOKEN; // Align with token conversion
+      const recommendedTokens = kesToTokens(asKES(recommendedKES));
+      recommendedKES = tokensToKES(recommendedTokens); // Align with token conversion
       
       remainingKES -= recommendedKES;
       totalAllocatedTokens += recommendedTokens;
@@ -1,127 +1,107 @@
-import { Platform, PermissionsAndroid } from 'react-native';
-import { AppUsage } from '../store/screenTimeStore';
-
-// Mock data for development/iOS
-const MOCK_APPS: AppUsage[] = [
-  {
-    packageName: 'com.instagram.android',
-    appName: 'Instagram',
-    timeSpent: 2 * 60 * 60 * 1000, // 2 hours in milliseconds
-    lastUsed: Date.now() - 30 * 60 * 1000, // 30 minutes ago
-  },
-  {
-    packageName: 'com.whatsapp',
-    appName: 'WhatsApp',
-    timeSpent: 1.5 * 60 * 60 * 1000, // 1.5 hours
-    lastUsed: Date.now() - 10 * 60 * 1000, // 10 minutes ago
-  },
-  {
-    packageName: 'com.tiktok',
-    appName: 'TikTok',
-    timeSpent: 3 * 60 * 60 * 1000, // 3 hours
-    lastUsed: Date.now() - 5 * 60 * 1000, // 5 minutes ago
-  },
-  {
-    packageName: 'com.facebook.katana',
-    appName: 'Facebook',
-    timeSpent: 45 * 60 * 1000, // 45 minutes
-    lastUsed: Date.now() - 60 * 60 * 1000, // 1 hour ago
-  },
-  {
-    packageName: 'com.twitter.android',
-    appName: 'Twitter',
-    timeSpent: 30 * 60 * 1000, // 30 minutes
-    lastUsed: Date.now() - 2 * 60 * 60 * 1000, // 2 hours ago
-  },
-];
+import { AppUsage, UsageSession } from '../store/screenTimeStore';
+import { UsageSource, createDefaultUsageSource } from './usageSources';
+import { usageAccessService } from './usageAccess';
+import { getDayWindow, getRecentDateStrings, getTodayDateString } from '../utils/dates';
 
 class ScreenTimeService {
-  private hasUsageStatsPermission = false;
+  private usageSource: UsageSource = createDefaultUsageSource();
 
-  async requestUsageStatsPermission(): Promise<boolean> {
-    if (Platform.OS !== 'android') {
-      return false;
-    }
+  /**
+   * Replace the usage source (e.g. the mock in tests or dev builds)
+   */
+  setUsageSource(source: UsageSource): void {
+    this.usageSource = source;
+  }
+
+  getUsageSource(): UsageSource {
+    return this.usageSource;
+  }
 
+  /**
+   * Get per-app foreground time for the [startTime, endTime) window
+   */
+  async getUsage(startTime: number, endTime: number): Promise<AppUsage[]> {
     try {
-      // Check if we already have permission
-      if (this.hasUsageStatsPermission) {
-        return true;
+      if (!(await this.usageSource.isAvailable())) {
+        return [];
       }
 
-      // Request usage stats permission
-      // Note: This requires special handling in React Native
-      // You'll need to use a native module or library like react-native-usage-stats
-      const granted = await PermissionsAndroid.request(
-        PermissionsAndroid.PERMISSIONS.PACKAGE_USAGE_STATS as any,
-        {
-          title: 'Usage Stats Permission',
-          message: 'FOOM needs access to usage stats to track your screen time and reward you with tokens.',
-          buttonNeutral: 'Ask Me Later',
-          buttonNegative: 'Cancel',
-          buttonPositive: 'OK',
-        }
-      );
-
-      this.hasUsageStatsPermission = granted === PermissionsAndroid.RESULTS.GRANTED;
-      return this.hasUsageStatsPermission;
+      return await this.usageSource.queryUsage(startTime, endTime);
     } catch (error) {
-      console.error('Error requesting usage stats permission:', error);
+      console.error(`Error getting usage data from ${this.usageSource.name} source:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Whether usage can be read right now: the source is available and,
+   * when it reads device data, usage access is granted
+   */
+  async canMeasureUsage(): Promise<boolean> {
+    if (this.usageSource.requiresUsageAccess && (await usageAccessService.check()) !== 'granted') {
+      return false;
+    }
+
+    try {
+      return await this.usageSource.isAvailable();
+    } catch (error) {
+      console.error(`Error checking the ${this.usageSource.name} usage source:`, error);
       return false;
     }
   }
 
+  /**
+   * Like getUsage, but null when the window can't be measured, so a day
+   * without data isn't mistaken for a day without use
+   */
+  async measureUsage(startTime: number, endTime: number): Promise<AppUsage[] | null> {
+    if (!(await this.canMeasureUsage())) {
+      return null;
+    }
+
+    try {
+      return await this.usageSource.queryUsage(startTime, endTime);
+    } catch (error) {
+      console.error(`Error getting usage data from ${this.usageSource.name} source:`, error);
+      return null;
+    }
+  }
+
   async getTodayUsage(): Promise<AppUsage[]> {
+    const { start } = getDayWindow(getTodayDateString());
+
+    return this.getUsage(start, Date.now());
+  }
+
+  /**
+   * Get foreground sessions for the [startTime, endTime) window, oldest first
+   */
+  async getSessions(startTime: number, endTime: number): Promise<UsageSession[]> {
     try {
-      if (Platform.OS === 'android' && this.hasUsageStatsPermission) {
-        // Use native Android UsageStatsManager
-        return await this.getAndroidUsageStats();
-      } else {
-        // Fallback to mock data for development/iOS
-        return this.getMockUsageData();
+      if (!(await this.usageSource.isAvailable())) {
+        return [];
       }
+
+      return await this.usageSource.querySessions(startTime, endTime);
     } catch (error) {
-      console.error('Error getting usage data:', error);
-      return this.getMockUsageData();
+      console.error(`Error getting usage sessions from ${this.usageSource.name} source:`, error);
+      return [];
     }
   }
 
-  private async getAndroidUsageStats(): Promise<AppUsage[]> {
-    // This would integrate with react-native-usage-stats or similar library
-    // For now, return mock data
-    console.log('Getting Android usage stats...');
-    
-    // In a real implementation, you would:
-    // 1. Import the native module
-    // 2. Query usage stats for today
-    // 3. Format the data as AppUsage[]
-    
-    return this.getMockUsageData();
-  }
+  async getTodaySessions(): Promise<UsageSession[]> {
+    const { start } = getDayWindow(getTodayDateString());
 
-  private getMockUsageData(): AppUsage[] {
-    // Add some randomization to make it feel more realistic
-    return MOCK_APPS.map(app => ({
-      ...app,
-      timeSpent: app.timeSpent + (Math.random() - 0.5) * 30 * 60 * 1000, // ±15 minutes
-      lastUsed: app.lastUsed + Math.random() * 10 * 60 * 1000, // Random within 10 minutes
-    }));
+    return this.getSessions(start, Date.now());
   }
 
   async getWeeklyUsage(): Promise<Record<string, AppUsage[]>> {
     const weeklyData: Record<string, AppUsage[]> = {};
     
-    // Generate mock data for the past 7 days
-    for (let i = 0; i < 7; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateKey = date.toISOString().split('T')[0];
+    for (const date of getRecentDateStrings(7)) {
+      const { start, end } = getDayWindow(date);
       
-      weeklyData[dateKey] = MOCK_APPS.map(app => ({
-        ...app,
-        timeSpent: app.timeSpent * (0.5 + Math.random()), // Vary usage by day
-        lastUsed: date.getTime() - Math.random() * 24 * 60 * 60 * 1000,
-      }));
+      weeklyData[date] = await this.getUsage(start, Math.min(end, Date.now()));
     }
     
     return weeklyData;
@@ -137,12 +117,6 @@ class ScreenTimeService {
       .slice(0, limit);
   }
 
-  calculateTokensEarned(screenTimeMs: number, goalHours: number = 8): number {
-    const screenTimeHours = screenTimeMs / (1000 * 60 * 60);
-    const hoursUnderGoal = Math.max(0, goalHours - screenTimeHours);
-    return Math.round(hoursUnderGoal * 10); // 10 tokens per hour under goal
-  }
-
   isAppBlocked(packageName: string, blockedApps: string[]): boolean {
     return blockedApps.includes(packageName);
   }
@@ -156,18 +130,6 @@ class ScreenTimeService {
     }
     return `${minutes}m`;
   }
-
-  // Simulate blocking an app (would require system-level access in production)
-  async blockApp(packageName: string): Promise<boolean> {
-    console.log(`Simulating blocking app: ${packageName}`);
-    // In production, this would require accessibility service or device admin permissions
-    return true;
-  }
-
-  async unblockApp(packageName: string): Promise<boolean> {
-    console.log(`Simulating unblocking app: ${packageName}`);
-    return true;
-  }
 }
 
 export const screenTimeService = new ScreenTimeService();
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { AppUsage, DailyScreenTime, useScreenTimeStore } from '../store/screenTimeStore';
+import { useWalletStore } from '../store/walletStore';
+import { useAuthStore } from '../store/authStore';
+import { RewardCalculation, rewardsEngine } from './rewardsEngine';
+import { DowntimeCompliance } from './downtime';
+import { streakFreezeService } from './streakFreeze';
+import { CONSTANTS } from '../utils/constants';
+import { asTokens } from '../utils/money';
+import { getDayWindow, getTodayDateString, shiftDateString } from '../utils/dates';
+import { getGoalHours } from '../utils/goals';
+
+/**
+ * Wallet transaction id for a day's payout. One per user and day, which is
+ * what makes settling twice harmless.
+ */
+export const getSettlementId = (uid: string, date: string): string => `settle_${uid}_${date}`;
+
+class SettlementService {
+  /**
+   * Evaluate the reward for a day's usage against that day's goal
+   */
+  evaluate(date: string, apps: AppUsage[], downtime?: DowntimeCompliance): RewardCalculation {
+    return rewardsEngine.calculateDailyReward({
+      screenTimeMs: apps.reduce((total, app) => total + app.timeSpent, 0),
+      goalHours: getGoalHours(date),
+      currentStreak: this.getStreakBefore(date),
+      event: rewardsEngine.calculateEventBonus(new Date(getDayWindow(date).start)),
+      appUsage: apps,
+      downtime,
+    });
+  }
+
+  /**
+   * The streak a day builds on: the stored streak if it reached the day
+   * before, otherwise none
+   */
+  getStreakBefore(date: string): number {
+    const { streak } = useScreenTimeStore.getState();
+    return streak.lastQualifyingDate === shiftDateString(date, -1) ? streak.current : 0;
+  }
+
+  /**
+   * Credit the final reward for a closed day and mark its record settled.
+   * An unmeasured day earns nothing and counts as missed, so turning off
+   * usage access can't look like a day without screen time.
+   * Returns the settled record, or null when the day can't be settled yet.
+   */
+  settle(date: string): DailyScreenTime | null {
+    const uid = useAuthStore.getState().user?.uid;
+    const record = useScreenTimeStore.getState().dailyScreenTime[date];
+    if (!uid || !record || date >= getTodayDateString()) return null;
+    if (record.settledAt) return record;
+
+    const reward = record.unmeasured ? null : this.evaluate(date, record.apps, record.downtime);
+    if (reward && reward.totalReward > 0) {
+      const credited = useWalletStore.getState().creditSettlement({
+        id: getSettlementId(uid, date),
+        amount: asTokens(reward.totalReward),
+        description: `Daily reward for ${date}`,
+        relatedScreenTime: Math.round(reward.hoursUnderGoal * 60),
+        relatedDate: date,
+        breakdown: reward.breakdown,
+      });
+      if (credited) {
+        useScreenTimeStore.getState().addTokens(reward.totalReward);
+      }
+    }
+
+    const goalMet = !!reward?.dailyGoalMet;
+    const frozen = !goalMet && streakFreezeService.consumeFor(date);
+    if (!frozen) {
+      useScreenTimeStore.getState().recordStreakDay(date, goalMet);
+    }
+
+    const settled: DailyScreenTime = {
+      ...record,
+      tokensEarned: reward?.totalReward ?? 0,
+      rewardBreakdown: reward?.breakdown ?? [],
+      settledAt: Date.now(),
+      ...(frozen ? { streakFreezeUsed: true } : {}),
+    };
+    useScreenTimeStore.getState().updateDailyScreenTime(date, settled);
+    return settled;
+  }
+
+  /**
+   * Settle every recent closed day that hasn't been paid out, oldest first
+   * so each day sees the streak built by the ones before it
+   */
+  settlePending(): string[] {
+    const today = getTodayDateString();
+    const earliest = shiftDateString(today, -CONSTANTS.LIMITS.MAX_BACKFILL_DAYS);
+    const { dailyScreenTime } = useScreenTimeStore.getState();
+
+    return Object.keys(dailyScreenTime)
+      .filter(date => date >= earliest && date < today && !dailyScreenTime[date].settledAt)
+      .sort()
+      .filter(date => this.settle(date) !== null);
+  }
+}
+
+export const settlementService = new SettlementService();
@@ -0,0 +1,39 @@
+import { useScreenTimeStore } from '../store/screenTimeStore';
+import { useWalletStore } from '../store/walletStore';
+import { CONSTANTS } from '../utils/constants';
+import { shiftDateString } from '../utils/dates';
+import { asTokens } from '../utils/money';
+
+const { PRICE_TOKENS, MAX_HELD } = CONSTANTS.STREAK_FREEZE;
+
+class StreakFreezeService {
+  /**
+   * Buy one streak freeze with tokens. Throws when the user already holds
+   * the maximum or can't afford it.
+   */
+  purchase(): void {
+    const { streak, addStreakFreeze } = useScreenTimeStore.getState();
+    if (streak.freezeTokens >= MAX_HELD) {
+      throw new Error(`You can hold at most ${MAX_HELD} streak freezes`);
+    }
+
+    useWalletStore.getState().deductTokens(asTokens(PRICE_TOKENS), 'adjustment', 'Bought a streak freeze');
+    addStreakFreeze();
+  }
+
+  /**
+   * Spend a freeze on a missed day if there is a streak worth keeping.
+   * Using one costs no tokens, so it stays off the wallet ledger; the streak
+   * and the settled day record it. Returns whether one was used.
+   */
+  consumeFor(date: string): boolean {
+    const { streak, consumeStreakFreeze } = useScreenTimeStore.getState();
+    const streakAlive = streak.current > 0 && streak.lastQualifyingDate === shiftDateString(date, -1);
+    if (!streakAlive || streak.freezeTokens === 0) return false;
+
+    consumeStreakFreeze(date);
+    return true;
+  }
+}
+
+export const streakFreezeService = new StreakFreezeService();
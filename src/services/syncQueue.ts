@@ -0,0 +1,65 @@
+import auth from '@react-native-firebase/auth';
+import { DailyScreenTime } from '../store/screenTimeStore';
+import { useSyncStore } from '../store/syncStore';
+import { saveDailyScreenTime } from '../api/firebase';
+import { CONSTANTS } from '../utils/constants';
+
+class SyncQueueService {
+  private pendingFlush: Promise<number> | null = null;
+
+  /**
+   * Queue a day's record for upload. A newer record for the same date
+   * replaces the queued one.
+   */
+  enqueueScreenTime(data: DailyScreenTime | undefined): void {
+    if (!data) return;
+    useSyncStore.getState().enqueueScreenTime(data);
+  }
+
+  getPendingCount(): number {
+    return Object.keys(useSyncStore.getState().pendingScreenTime).length;
+  }
+
+  /**
+   * Upload queued records oldest first. Stops at the first failure and
+   * leaves the rest queued for the next attempt. Returns the number uploaded.
+   */
+  flush(): Promise<number> {
+    if (!this.pendingFlush) {
+      this.pendingFlush = this.runFlush().finally(() => {
+        this.pendingFlush = null;
+      });
+    }
+    return this.pendingFlush;
+  }
+
+  private async runFlush(): Promise<number> {
+    if (!auth().currentUser) return 0;
+
+    const { pendingScreenTime, markScreenTimeSynced, setSyncError } = useSyncStore.getState();
+    const records = Object.values(pendingScreenTime).sort((a, b) => a.date.localeCompare(b.date));
+    const synced: DailyScreenTime[] = [];
+    let failed = false;
+
+    for (const record of records) {
+      try {
+        await saveDailyScreenTime(record.date, record);
+        synced.push(record);
+      } catch (error) {
+        console.error(`Error syncing screen time for ${record.date}:`, error);
+        failed = true;
+        break;
+      }
+    }
+
+    if (synced.length > 0) {
+      markScreenTimeSynced(synced);
+    }
+    if (failed) {
+      setSyncError(CONSTANTS.ERRORS.SYNC_FAILED);
+    }
+    return synced.length;
+  }
+}
+
+export const syncQueueService = new SyncQueueService();
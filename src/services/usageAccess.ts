@@ -0,0 +1,115 @@
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import { usePermissionStore, UsageAccessState } from '../store/permissionStore';
+import { checkUsageStatsPermission, openUsageAccessSettings } from '../native/usageStats';
+
+export type UsageAccessEvent = 'check_granted' | 'check_denied' | 'settings_opened';
+
+/**
+ * Usage access state machine:
+ *
+ *   unknown ──check──▶ granted | denied
+ *   denied ──open settings──▶ settings_opened ──check──▶ granted | denied
+ *   granted ──check denied──▶ revoked ──open settings──▶ settings_opened
+ *
+ * A denied check is 'revoked' whenever access was granted at some point,
+ * including after a detour through the settings page.
+ */
+export const nextUsageAccessState = (
+  current: UsageAccessState,
+  event: UsageAccessEvent,
+  wasGranted: boolean
+): UsageAccessState => {
+  switch (event) {
+    case 'check_granted':
+      return 'granted';
+
+    case 'check_denied':
+      return wasGranted || current === 'granted' ? 'revoked' : 'denied';
+
+    case 'settings_opened':
+      return current === 'granted' ? 'granted' : 'settings_opened';
+
+    default:
+      return current;
+  }
+};
+
+class UsageAccessService {
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  getState(): UsageAccessState {
+    return usePermissionStore.getState().usageAccess;
+  }
+
+  isGranted(): boolean {
+    return this.getState() === 'granted';
+  }
+
+  /**
+   * Check the AppOps status and advance the state machine
+   */
+  async check(): Promise<UsageAccessState> {
+    if (Platform.OS !== 'android') {
+      return this.getState();
+    }
+
+    // A result written before the stored state loads would be overwritten
+    if (!usePermissionStore.persist.hasHydrated()) {
+      await usePermissionStore.persist.rehydrate();
+    }
+
+    let granted = false;
+    try {
+      granted = await checkUsageStatsPermission();
+    } catch (error) {
+      console.error('Error checking usage access:', error);
+    }
+
+    return this.dispatch(granted ? 'check_granted' : 'check_denied');
+  }
+
+  /**
+   * Send the user to the Usage Access settings page. The result is
+   * picked up by the foreground re-check when they come back.
+   */
+  async openSettings(): Promise<UsageAccessState> {
+    if (Platform.OS !== 'android') {
+      return this.getState();
+    }
+
+    await openUsageAccessSettings();
+    return this.dispatch('settings_opened');
+  }
+
+  /**
+   * Re-check usage access every time the app returns to the foreground.
+   * Returns a function that stops monitoring.
+   */
+  startMonitoring(): () => void {
+    this.stopMonitoring();
+    this.check();
+
+    this.appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active') {
+        this.check();
+      }
+    });
+
+    return () => this.stopMonitoring();
+  }
+
+  stopMonitoring(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  private dispatch(event: UsageAccessEvent): UsageAccessState {
+    const { usageAccess, usageAccessGrantedAt, setUsageAccess } = usePermissionStore.getState();
+    const next = nextUsageAccessState(usageAccess, event, usageAccessGrantedAt > 0);
+
+    setUsageAccess(next);
+    return next;
+  }
+}
+
+export const usageAccessService = new UsageAccessService();
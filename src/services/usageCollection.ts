@@ -0,0 +1,233 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { AppUsage, DailyScreenTime, useScreenTimeStore } from '../store/screenTimeStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { ensureStoresHydrated } from '../store/hydration';
+import { screenTimeService } from './screenTime';
+import { settlementService } from './settlement';
+import { challengeService } from './challenges';
+import { achievementService } from './achievements';
+import { eventCalendarService } from './eventCalendar';
+import { syncQueueService } from './syncQueue';
+import { limitEngine } from './limitEngine';
+import { DowntimeCompliance, calculateDowntimeCompliance, getDowntimeWindows } from './downtime';
+import { CONSTANTS } from '../utils/constants';
+import { getDayWindow, getTodayDateString, shiftDateString } from '../utils/dates';
+
+class UsageCollectionService {
+  private rolloverTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+  private unsubscribeSettings: (() => void) | null = null;
+  private pendingCollection: Promise<DailyScreenTime> | null = null;
+
+  /**
+   * Build the daily record for a date from its per-app usage
+   */
+  buildDailyScreenTime(date: string, apps: AppUsage[], downtime?: DowntimeCompliance): DailyScreenTime {
+    const totalTime = screenTimeService.getTotalScreenTime(apps);
+    const reward = settlementService.evaluate(date, apps, downtime);
+
+    return {
+      date,
+      totalTime,
+      apps,
+      tokensEarned: reward.totalReward,
+      rewardBreakdown: reward.breakdown,
+      downtime,
+    };
+  }
+
+  /**
+   * Record for a day whose usage couldn't be read, e.g. while usage access
+   * was off. It earns nothing.
+   */
+  buildUnmeasuredDay(date: string): DailyScreenTime {
+    return { date, totalTime: 0, apps: [], tokensEarned: 0, unmeasured: true };
+  }
+
+  /**
+   * Build the final record for a closed day from a full-day query, or from
+   * the last snapshot taken if that holds more usage
+   */
+  private async buildClosedDay(date: string, snapshot: AppUsage[] = []): Promise<DailyScreenTime> {
+    const { start, end } = getDayWindow(date);
+    const usage = await screenTimeService.measureUsage(start, end);
+    if (!usage) return this.buildUnmeasuredDay(date);
+
+    const apps =
+      screenTimeService.getTotalScreenTime(usage) >= screenTimeService.getTotalScreenTime(snapshot) ? usage : snapshot;
+    const downtime = await this.getDowntimeCompliance(date);
+    return this.buildDailyScreenTime(date, apps, downtime);
+  }
+
+  /**
+   * Check the downtime windows that have finished on a date against that
+   * day's sessions. Returns undefined when there is nothing to judge or
+   * usage can't be measured, so no window counts as respected by default.
+   */
+  async getDowntimeCompliance(date: string): Promise<DowntimeCompliance | undefined> {
+    const { downtimeSchedules } = useScreenTimeStore.getState();
+    const { start, end } = getDayWindow(date);
+    const until = Math.min(end, Date.now());
+
+    const windows = downtimeSchedules
+      .flatMap(schedule => getDowntimeWindows(schedule, start, until))
+      .filter(window => window.end <= until);
+    if (windows.length === 0) return undefined;
+
+    // Overnight windows reach back into the previous day
+    const sessionsStart = Math.min(...windows.map(window => window.start));
+    const usage = await screenTimeService.measureUsage(sessionsStart, until);
+    if (!usage) return undefined;
+    const sessions = await screenTimeService.getSessions(sessionsStart, until);
+    if (sessions.length === 0 && usage.length > 0) return undefined;
+
+    return calculateDowntimeCompliance(downtimeSchedules, sessions, start, until);
+  }
+
+  /**
+   * Close out every day that ended since the last run. The day the current
+   * usage belongs to is snapshotted; days the app was never opened are
+   * backfilled from the usage source. Days that can't be measured are
+   * stored as unmeasured. Returns the dates that were closed.
+   */
+  async rollover(): Promise<string[]> {
+    const today = getTodayDateString();
+    const { currentUsageDate, currentDayUsage, dailyScreenTime, updateDailyScreenTime, startNewDay } =
+      useScreenTimeStore.getState();
+
+    if (currentUsageDate === today) {
+      return [];
+    }
+
+    const closedDates: string[] = [];
+
+    if (currentUsageDate) {
+      updateDailyScreenTime(currentUsageDate, await this.buildClosedDay(currentUsageDate, currentDayUsage));
+      closedDates.push(currentUsageDate);
+
+      // Backfill the days in between that the app never saw
+      const earliest = shiftDateString(today, -CONSTANTS.LIMITS.MAX_BACKFILL_DAYS);
+      let date = shiftDateString(currentUsageDate, 1);
+      if (date < earliest) date = earliest;
+
+      while (date < today) {
+        if (!dailyScreenTime[date]) {
+          updateDailyScreenTime(date, await this.buildClosedDay(date));
+          closedDates.push(date);
+        }
+        date = shiftDateString(date, 1);
+      }
+    }
+
+    startNewDay(today);
+    return closedDates;
+  }
+
+  /**
+   * Sample today's usage and sessions into the store, rolling over first
+   * if the day has changed since the last sample. Closed days are settled,
+   * they and today's record are queued for sync, challenges are updated
+   * and app limits are checked.
+   */
+  collectToday(): Promise<DailyScreenTime> {
+    // Foreground, timer and screen refreshes can overlap; share one run
+    if (!this.pendingCollection) {
+      this.pendingCollection = this.runCollection().finally(() => {
+        this.pendingCollection = null;
+      });
+    }
+    return this.pendingCollection;
+  }
+
+  private async runCollection(): Promise<DailyScreenTime> {
+    // Collection can start with the app, before stored state has loaded
+    await ensureStoresHydrated();
+    const closedDates = await this.rollover();
+    // Settlement applies whichever event calendar is current
+    await eventCalendarService.refresh();
+    // Also retries days that closed while signed out
+    const settledDates = settlementService.settlePending();
+
+    const today = getTodayDateString();
+    const { start } = getDayWindow(today);
+    const now = Date.now();
+
+    const measured = await screenTimeService.measureUsage(start, now);
+    const usage = measured ?? [];
+    const sessions = await screenTimeService.getSessions(start, now);
+
+    const { updateCurrentUsage, updateCurrentSessions, updateDailyScreenTime } = useScreenTimeStore.getState();
+    const todayData = measured
+      ? this.buildDailyScreenTime(today, usage, await this.getDowntimeCompliance(today))
+      : this.buildUnmeasuredDay(today);
+
+    updateCurrentUsage(usage);
+    updateCurrentSessions(sessions);
+    updateDailyScreenTime(today, todayData);
+    challengeService.refresh();
+    achievementService.evaluate();
+
+    const { dailyScreenTime } = useScreenTimeStore.getState();
+    Array.from(new Set([...closedDates, ...settledDates])).forEach(date =>
+      syncQueueService.enqueueScreenTime(dailyScreenTime[date])
+    );
+    syncQueueService.enqueueScreenTime(todayData);
+
+    await limitEngine.check(usage);
+
+    return todayData;
+  }
+
+  /**
+   * Collect on start, on every return to the foreground and right after
+   * the day starts. Returns a function that stops collection.
+   */
+  start(): () => void {
+    this.stop();
+    this.collectToday();
+    this.scheduleRollover();
+
+    this.appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+      if (status === 'active') {
+        this.collectToday();
+        this.scheduleRollover();
+      }
+    });
+
+    // Moving the day-start hour moves the next rollover
+    this.unsubscribeSettings = useSettingsStore.subscribe((state, previous) => {
+      if (state.dayStartHour !== previous.dayStartHour) {
+        this.collectToday();
+        this.scheduleRollover();
+      }
+    });
+
+    return () => this.stop();
+  }
+
+  stop(): void {
+    if (this.rolloverTimer) {
+      clearTimeout(this.rolloverTimer);
+      this.rolloverTimer = null;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.unsubscribeSettings?.();
+    this.unsubscribeSettings = null;
+  }
+
+  private scheduleRollover(): void {
+    if (this.rolloverTimer) {
+      clearTimeout(this.rolloverTimer);
+    }
+
+    const { end } = getDayWindow(getTodayDateString());
+
+    this.rolloverTimer = setTimeout(() => {
+      this.collectToday();
+      this.scheduleRollover();
+    }, end - Date.now() + CONSTANTS.TIME.SECOND);
+  }
+}
+
+export const usageCollectionService = new UsageCollectionService();
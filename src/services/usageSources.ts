@@ -0,0 +1,245 @@
+import { Platform } from 'react-native';
+import { AppUsage, UsageSession } from '../store/screenTimeStore';
+import { useAppCatalogStore } from '../store/appCatalogStore';
+import { categorizeApp } from './appCatalog';
+import { CONSTANTS } from '../utils/constants';
+import { checkUsageStatsPermission, isUsageStatsAvailable } from '../native/usageStats';
+import { NativeUsageEvent, isUsageEventsAvailable, queryUsageEvents } from '../native/usageEvents';
+
+/**
+ * A provider of per-app foreground time. ScreenTimeService talks to this
+ * interface only, so the real device data and the mock are interchangeable.
+ */
+export interface UsageSource {
+  readonly name: string;
+  readonly requiresUsageAccess: boolean; // reads device data behind the Usage Access permission
+  isAvailable(): Promise<boolean>;
+  queryUsage(startTime: number, endTime: number): Promise<AppUsage[]>;
+  querySessions(startTime: number, endTime: number): Promise<UsageSession[]>;
+}
+
+// Activity switches inside one app produce a background/foreground pair a few ms apart
+const SESSION_MERGE_GAP = 2 * CONSTANTS.TIME.SECOND;
+
+// An app already open at the start of a window moved to the foreground before it
+const SESSION_LOOKBACK = 3 * CONSTANTS.TIME.HOUR;
+
+// Daily baseline for the mock source, scaled to the requested window
+const MOCK_APPS: Array<{ packageName: string; appName: string; dailyTime: number }> = [
+  { packageName: 'com.instagram.android', appName: 'Instagram', dailyTime: 2 * CONSTANTS.TIME.HOUR },
+  { packageName: 'com.whatsapp', appName: 'WhatsApp', dailyTime: 1.5 * CONSTANTS.TIME.HOUR },
+  { packageName: 'com.zhiliaoapp.musically', appName: 'TikTok', dailyTime: 3 * CONSTANTS.TIME.HOUR },
+  { packageName: 'com.facebook.katana', appName: 'Facebook', dailyTime: 45 * CONSTANTS.TIME.MINUTE },
+  { packageName: 'com.twitter.android', appName: 'Twitter', dailyTime: 30 * CONSTANTS.TIME.MINUTE },
+];
+
+/**
+ * Resolve a display name for a package from the installed app labels,
+ * falling back to the last segment of the package name (com.example.notes -> Notes)
+ */
+export const getAppName = (packageName: string): string => {
+  const installed = useAppCatalogStore.getState().installedApps.find(app => app.packageName === packageName);
+  if (installed) return installed.appName;
+
+  const known = CONSTANTS.POPULAR_APPS.find(app => app.packageName === packageName);
+  if (known) return known.appName;
+
+  const lastSegment = packageName.split('.').pop() || packageName;
+  return lastSegment.charAt(0).toUpperCase() + lastSegment.slice(1);
+};
+
+/**
+ * Resolve the screen time category for a package: the user's override,
+ * then the category assigned when the app was discovered
+ */
+export const getAppCategory = (packageName: string): string => {
+  const { categoryOverrides, installedApps } = useAppCatalogStore.getState();
+  if (categoryOverrides[packageName]) return categoryOverrides[packageName];
+
+  const installed = installedApps.find(app => app.packageName === packageName);
+  return installed?.category || categorizeApp(packageName);
+};
+
+/**
+ * Pair foreground/background events into sessions clipped to [startTime, endTime).
+ * An app still in the foreground at endTime gets a session ending at endTime.
+ */
+export const buildSessionsFromEvents = (
+  events: NativeUsageEvent[],
+  startTime: number,
+  endTime: number
+): UsageSession[] => {
+  const sessions: UsageSession[] = [];
+  let open: { packageName: string; startTime: number } | null = null;
+
+  const close = (timestamp: number) => {
+    if (!open) return;
+
+    const sessionStart = Math.max(open.startTime, startTime);
+    const sessionEnd = Math.min(timestamp, endTime);
+    const previous = sessions[sessions.length - 1];
+
+    if (sessionEnd > sessionStart) {
+      if (
+        previous &&
+        previous.packageName === open.packageName &&
+        sessionStart - previous.endTime <= SESSION_MERGE_GAP
+      ) {
+        previous.endTime = sessionEnd;
+      } else {
+        sessions.push({
+          packageName: open.packageName,
+          appName: getAppName(open.packageName),
+          startTime: sessionStart,
+          endTime: sessionEnd,
+        });
+      }
+    }
+    open = null;
+  };
+
+  [...events]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(event => {
+      if (event.type === 'foreground') {
+        if (open && open.packageName === event.packageName) return;
+        close(event.timestamp);
+        if (event.packageName !== CONSTANTS.APP_PACKAGE_NAME) {
+          open = { packageName: event.packageName, startTime: event.timestamp };
+        }
+      } else if (event.type === 'screen_off' || open?.packageName === event.packageName) {
+        close(event.timestamp);
+      }
+    });
+
+  close(endTime);
+  return sessions;
+};
+
+/**
+ * Collapse sessions into per-app totals
+ */
+export const summarizeSessions = (sessions: UsageSession[]): AppUsage[] => {
+  const byPackage: Record<string, AppUsage> = {};
+
+  sessions.forEach(session => {
+    const existing = byPackage[session.packageName];
+    const duration = session.endTime - session.startTime;
+
+    if (existing) {
+      existing.timeSpent += duration;
+      existing.lastUsed = Math.max(existing.lastUsed, session.endTime);
+    } else {
+      byPackage[session.packageName] = {
+        packageName: session.packageName,
+        appName: session.appName,
+        category: getAppCategory(session.packageName),
+        timeSpent: duration,
+        lastUsed: session.endTime,
+      };
+    }
+  });
+
+  return Object.values(byPackage);
+};
+
+/**
+ * Reads real foreground time from Android's UsageStatsManager event stream.
+ * Aggregated stats come in whole daily buckets, so totals are rebuilt from
+ * sessions clipped to the requested window instead.
+ */
+export class AndroidUsageSource implements UsageSource {
+  readonly name = 'android';
+  readonly requiresUsageAccess = true;
+
+  async isAvailable(): Promise<boolean> {
+    if (!isUsageStatsAvailable() || !isUsageEventsAvailable()) return false;
+
+    try {
+      return await checkUsageStatsPermission();
+    } catch (error) {
+      console.error('Error checking usage stats permission:', error);
+      return false;
+    }
+  }
+
+  async queryUsage(startTime: number, endTime: number): Promise<AppUsage[]> {
+    return summarizeSessions(await this.querySessions(startTime, endTime));
+  }
+
+  async querySessions(startTime: number, endTime: number): Promise<UsageSession[]> {
+    if (!isUsageEventsAvailable()) return [];
+
+    const events = await queryUsageEvents(startTime - SESSION_LOOKBACK, endTime);
+    return buildSessionsFromEvents(events, startTime, endTime);
+  }
+}
+
+/**
+ * Deterministic stand-in for development builds, iOS and Jest tests.
+ * The same window always yields the same numbers.
+ */
+export class MockUsageSource implements UsageSource {
+  readonly name = 'mock';
+  readonly requiresUsageAccess = false;
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async queryUsage(startTime: number, endTime: number): Promise<AppUsage[]> {
+    return summarizeSessions(await this.querySessions(startTime, endTime));
+  }
+
+  async querySessions(startTime: number, endTime: number): Promise<UsageSession[]> {
+    const windowLength = Math.max(0, endTime - startTime);
+    const dayFraction = Math.min(1, windowLength / CONSTANTS.TIME.DAY);
+    const slotLength = 15 * CONSTANTS.TIME.MINUTE;
+
+    // 15-minute slots outside the night hours, in a fixed shuffled order
+    const slots: number[] = [];
+    for (let slotStart = startTime; slotStart + slotLength <= endTime; slotStart += slotLength) {
+      if (new Date(slotStart).getHours() >= 7) {
+        slots.push(slotStart);
+      }
+    }
+    slots.sort((a, b) => ((a / slotLength) * 37) % 101 - ((b / slotLength) * 37) % 101);
+
+    const sessions: UsageSession[] = [];
+    MOCK_APPS.forEach((app, index) => {
+      // Vary usage by ±25% per window so different days look different
+      const variation = 0.75 + (((startTime / CONSTANTS.TIME.HOUR + index * 7) % 11) / 10) * 0.5;
+      let remaining = Math.round(app.dailyTime * dayFraction * variation);
+
+      while (remaining > 0 && slots.length > 0) {
+        const slotStart = slots.shift()!;
+        const duration = Math.min(slotLength, remaining);
+
+        sessions.push({
+          packageName: app.packageName,
+          appName: app.appName,
+          startTime: slotStart,
+          endTime: slotStart + duration,
+        });
+        remaining -= duration;
+      }
+    });
+
+    return sessions.sort((a, b) => a.startTime - b.startTime);
+  }
+}
+
+/**
+ * Pick the usage source for the current build. The mock is used on
+ * non-Android platforms, under Jest, and in dev builds with MOCK_USAGE_DATA on.
+ */
+export const createDefaultUsageSource = (): UsageSource => {
+  const isTest = typeof process !== 'undefined' && process.env.NODE_ENV === 'test';
+  const useMockInDev = __DEV__ && CONSTANTS.FEATURES.MOCK_USAGE_DATA;
+
+  if (isTest || useMockInDev || Platform.OS !== 'android') {
+    return new MockUsageSource();
+  }
+
+  return new AndroidUsageSource();
+};
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LedgerEntry, checkLedgerInvariants, getAccountBalance, useWalletStore } from '../walletStore';
+import { CONSTANTS } from '../../utils/constants';
+import { asKES, asTokens } from '../../utils/money';
+
+const wallet = () => useWalletStore.getState();
+
+const resetWallet = () => useWalletStore.setState({ ledger: [], investments: [], ledgerProblems: [] });
+
+const entry = (overrides: Partial<LedgerEntry>): LedgerEntry => ({
+  id: 'entry',
+  reason: 'earned',
+  from: 'issued',
+  to: 'wallet',
+  amount: asTokens(10),
+  description: 'Test',
+  timestamp: 0,
+  ...overrides,
+});
+
+describe('wallet ledger', () => {
+  beforeEach(() => {
+    resetWallet();
+    wallet().addTokens(asTokens(100), undefined, 'Starting balance');
+  });
+
+  it('derives balances from the entries', () => {
+    wallet().deductTokens(asTokens(30), 'adjustment', 'Bought a streak freeze');
+
+    expect(wallet().tokenBalance).toBe(70);
+    expect(wallet().totalEarned).toBe(100);
+    expect(wallet().transactions.map(transaction => transaction.amount)).toEqual([-30, 100]);
+    expect(checkLedgerInvariants(wallet().ledger, wallet().investments)).toEqual([]);
+  });
+
+  it('refuses to spend more than the balance', () => {
+    expect(() => wallet().deductTokens(asTokens(101), 'unlock', 'Too much')).toThrow('Insufficient token balance');
+    expect(wallet().ledger).toHaveLength(1);
+  });
+
+  it('credits a settlement only once', () => {
+    const settlement = { id: 'settle_user_2024-03-04', amount: asTokens(25), description: 'Daily reward' };
+
+    expect(wallet().creditSettlement(settlement)).toBe(true);
+    expect(wallet().creditSettlement(settlement)).toBe(false);
+    expect(wallet().tokenBalance).toBe(125);
+  });
+
+  it('holds a stake in escrow until it is returned or forfeited', () => {
+    wallet().stakeTokens(asTokens(40), 'Stake');
+    expect(wallet().tokenBalance).toBe(60);
+    expect(getAccountBalance(wallet().ledger, 'escrow')).toBe(40);
+
+    wallet().releaseStake(asTokens(20), 'Returned');
+    wallet().forfeitStake(asTokens(20), 'Forfeited');
+
+    expect(wallet().tokenBalance).toBe(80);
+    expect(getAccountBalance(wallet().ledger, 'escrow')).toBe(0);
+    expect(getAccountBalance(wallet().ledger, 'spent')).toBe(20);
+  });
+
+  it('returns an investment at its current value', () => {
+    wallet().investTokens('Test MMF', asTokens(100));
+    const [investment] = wallet().investments;
+    wallet().updateInvestmentValue(investment.id, asKES(investment.currentValue * 1.1), 10);
+    wallet().withdrawInvestment(investment.id);
+
+    expect(wallet().investments).toEqual([]);
+    expect(wallet().tokenBalance).toBe(110);
+    expect(getAccountBalance(wallet().ledger, 'invested')).toBe(0);
+    expect(checkLedgerInvariants(wallet().ledger, wallet().investments)).toEqual([]);
+  });
+
+  it('books an investment loss as spent', () => {
+    wallet().investTokens('Test MMF', asTokens(100));
+    const [investment] = wallet().investments;
+    wallet().updateInvestmentValue(investment.id, asKES(investment.currentValue / 2), -50);
+    wallet().withdrawInvestment(investment.id);
+
+    expect(wallet().tokenBalance).toBe(50);
+    expect(getAccountBalance(wallet().ledger, 'spent')).toBe(50);
+  });
+});
+
+describe('checkLedgerInvariants', () => {
+  it('allows zero-amount records', () => {
+    const ledger = [entry({ id: 'unlock', reason: 'unlock', from: 'wallet', to: 'spent', amount: asTokens(0) })];
+    expect(checkLedgerInvariants(ledger, [])).toEqual([]);
+  });
+
+  it('catches duplicates, negative amounts and overdrawn accounts', () => {
+    const ledger = [
+      entry({ id: 'a' }),
+      entry({ id: 'a' }),
+      entry({ id: 'b', amount: asTokens(-5) }),
+      entry({ id: 'c', from: 'wallet', to: 'spent', amount: asTokens(100) }),
+    ];
+
+    expect(checkLedgerInvariants(ledger, [])).toEqual([
+      'Duplicate entry a',
+      'Entry b has amount -5',
+      'wallet balance is -85',
+    ]);
+  });
+
+  it('catches invested tokens without an open investment', () => {
+    const ledger = [entry({ id: 'a' }), entry({ id: 'b', reason: 'invested', from: 'wallet', to: 'invested' })];
+    expect(checkLedgerInvariants(ledger, [])).toHaveLength(1);
+  });
+});
+
+describe('wallet hydration', () => {
+  const storeVersion0 = (state: object) =>
+    AsyncStorage.setItem('foom-wallet-storage', JSON.stringify({ state, version: 0 }));
+
+  beforeEach(async () => {
+    resetWallet();
+    await AsyncStorage.clear();
+  });
+
+  it('rebuilds the ledger from a version 0 wallet', async () => {
+    await storeVersion0({
+      tokenBalance: 80,
+      transactions: [
+        {
+          id: '2',
+          type: 'streak_freeze',
+          amount: -CONSTANTS.STREAK_FREEZE.PRICE_TOKENS,
+          description: 'Freeze',
+          timestamp: 2,
+        },
+        { id: '1', type: 'earned', amount: 130, description: 'Reward', timestamp: 1 },
+        { id: 'bad', amount: 'lots' },
+      ],
+    });
+    await useWalletStore.persist.rehydrate();
+
+    expect(wallet().ledger.map(item => [item.id, item.reason])).toEqual([
+      ['2', 'adjustment'],
+      ['1', 'earned'],
+    ]);
+    expect(wallet().tokenBalance).toBe(80);
+    expect(wallet().ledgerProblems).toEqual([]);
+  });
+
+  it('books drift the old totals cannot explain as an adjustment', async () => {
+    await storeVersion0({
+      tokenBalance: 50,
+      transactions: [{ id: '1', type: 'earned', amount: 30, description: 'Reward', timestamp: 1 }],
+    });
+    await useWalletStore.persist.rehydrate();
+
+    expect(wallet().ledger[0]).toMatchObject({ reason: 'adjustment', from: 'issued', to: 'wallet', amount: 20 });
+    expect(wallet().tokenBalance).toBe(50);
+  });
+
+  it('flags a stored ledger that fails its checks', async () => {
+    await AsyncStorage.setItem(
+      'foom-wallet-storage',
+      JSON.stringify({
+        state: { ledger: [entry({ id: 'a', from: 'wallet', to: 'spent' })], investments: [], savingsGoals: [] },
+        version: 1,
+      })
+    );
+    await useWalletStore.persist.rehydrate();
+
+    expect(wallet().ledgerProblems).toEqual(['wallet balance is -10']);
+  });
+});
@@ -0,0 +1,38 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * A badge the user has earned. Unlocks are permanent.
+ */
+export interface UnlockedAchievement {
+  id: string; // the achievement definition it unlocks
+  unlockedAt: number;
+  tokensAwarded: number;
+}
+
+interface AchievementState {
+  unlocked: Record<string, UnlockedAchievement>; // achievement id -> unlock
+
+  // Actions
+  unlock: (achievement: UnlockedAchievement) => void;
+}
+
+export const useAchievementStore = create<AchievementState>()(
+  persist(
+    (set) => ({
+      unlocked: {},
+
+      unlock: (achievement) =>
+        set((state) =>
+          state.unlocked[achievement.id]
+            ? {}
+            : { unlocked: { ...state.unlocked, [achievement.id]: achievement } }
+        ),
+    }),
+    {
+      name: 'foom-achievement-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
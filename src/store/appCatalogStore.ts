@@ -0,0 +1,57 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export interface InstalledApp {
+  packageName: string;
+  appName: string;
+  category: string; // auto-assigned; see categoryOverrides for the user's choice
+  isSystemApp: boolean;
+}
+
+interface AppCatalogState {
+  installedApps: InstalledApp[];
+  icons: Record<string, string>; // packageName -> PNG data URI, kept in memory only
+  categoryOverrides: Record<string, string>; // packageName -> category chosen by the user
+  lastRefreshedAt: number;
+
+  // Actions
+  setInstalledApps: (apps: InstalledApp[], icons: Record<string, string>) => void;
+  setCategoryOverride: (packageName: string, category: string | null) => void;
+}
+
+export const useAppCatalogStore = create<AppCatalogState>()(
+  persist(
+    (set) => ({
+      installedApps: [],
+      icons: {},
+      categoryOverrides: {},
+      lastRefreshedAt: 0,
+
+      setInstalledApps: (apps, icons) =>
+        set({
+          installedApps: apps,
+          icons,
+          lastRefreshedAt: Date.now(),
+        }),
+
+      setCategoryOverride: (packageName, category) =>
+        set((state) => {
+          const { [packageName]: _previous, ...categoryOverrides } = state.categoryOverrides;
+          return {
+            categoryOverrides: category ? { ...categoryOverrides, [packageName]: category } : categoryOverrides,
+          };
+        }),
+    }),
+    {
+      name: 'foom-app-catalog-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Icons are large; they are reloaded with the app list instead
+      partialize: (state) => ({
+        installedApps: state.installedApps,
+        categoryOverrides: state.categoryOverrides,
+        lastRefreshedAt: state.lastRefreshedAt,
+      }),
+    }
+  )
+);
@@ -0,0 +1,83 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Challenge } from '../services/rewardsEngine';
+import { CONSTANTS } from '../utils/constants';
+
+export type ChallengePeriod = 'daily' | 'weekly' | 'custom';
+
+// Only staked custom challenges fail; issued ones just expire
+export type ChallengeStatus = 'active' | 'completed' | 'expired' | 'failed';
+
+export type CustomChallengeTemplate = 'app_time_under' | 'category_free_until' | 'days_under_goal';
+
+export interface CustomChallengeParams {
+  template: CustomChallengeTemplate;
+  packageName?: string; // app_time_under
+  minutes?: number; // app_time_under
+  category?: string; // category_free_until
+  untilMinute?: number; // category_free_until, minutes after local midnight
+  days?: number; // days_under_goal
+}
+
+/**
+ * A challenge issued for one day or week. `id` is the template it came
+ * from; `instanceId` is unique to the period.
+ */
+export interface ChallengeInstance extends Challenge {
+  instanceId: string;
+  period: ChallengePeriod;
+  periodStart: string; // tracking day, or the Monday of the week
+  startsAt: number;
+  status: ChallengeStatus;
+  completedAt?: number;
+  tokensAwarded: number;
+  custom?: CustomChallengeParams; // set on challenges the user created
+  stake?: number; // tokens held from the balance until the challenge ends
+}
+
+interface ChallengeState {
+  challenges: ChallengeInstance[]; // newest first
+
+  // Actions
+  addChallenges: (challenges: ChallengeInstance[]) => void;
+  updateChallenge: (instanceId: string, updates: Partial<ChallengeInstance>) => void;
+  getChallengesByStatus: (status: ChallengeStatus) => ChallengeInstance[];
+}
+
+export const useChallengeStore = create<ChallengeState>()(
+  persist(
+    (set, get) => ({
+      challenges: [],
+
+      addChallenges: (challenges) =>
+        set((state) => {
+          const existing = new Set(state.challenges.map(challenge => challenge.instanceId));
+          const added = challenges.filter(challenge => !existing.has(challenge.instanceId));
+          if (added.length === 0) return {};
+
+          // Keep every active challenge and the most recent finished ones
+          let finishedKept = 0;
+          return {
+            challenges: [...added, ...state.challenges].filter(
+              challenge => challenge.status === 'active' || finishedKept++ < CONSTANTS.CHALLENGES.MAX_HISTORY
+            ),
+          };
+        }),
+
+      updateChallenge: (instanceId, updates) =>
+        set((state) => ({
+          challenges: state.challenges.map(challenge =>
+            challenge.instanceId === instanceId ? { ...challenge, ...updates } : challenge
+          ),
+        })),
+
+      getChallengesByStatus: (status) =>
+        get().challenges.filter(challenge => challenge.status === status),
+    }),
+    {
+      name: 'foom-challenge-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -0,0 +1,44 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { RewardBreakdown } from '../services/rewardsEngine';
+
+/**
+ * A window during which a day's rewards are multiplied
+ */
+export interface SeasonalEvent {
+  id: string;
+  name: string;
+  description: string; // shown on the Dashboard banner
+  start: string; // MM-DD to repeat every year, or YYYY-MM-DD for one year
+  end: string; // inclusive, in the same format as start
+  multiplier: number;
+  eligibleTypes: RewardBreakdown['type'][]; // reward lines the multiplier applies to
+}
+
+interface EventCalendarState {
+  remoteEvents: SeasonalEvent[] | null; // replaces the bundled calendar when set
+  fetchedAt: number;
+
+  // Actions
+  setRemoteEvents: (events: SeasonalEvent[] | null) => void;
+}
+
+export const useEventCalendarStore = create<EventCalendarState>()(
+  persist(
+    (set) => ({
+      remoteEvents: null,
+      fetchedAt: 0,
+
+      setRemoteEvents: (events) =>
+        set({
+          remoteEvents: events,
+          fetchedAt: Date.now(),
+        }),
+    }),
+    {
+      name: 'foom-event-calendar-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
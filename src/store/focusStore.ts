@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CONSTANTS } from '../utils/constants';
+
+export type FocusSessionStatus = 'active' | 'completed' | 'abandoned';
+
+export interface FocusSession {
+  id: string;
+  startedAt: number;
+  endsAt: number;
+  endedAt?: number;
+  durationMinutes: number; // planned length
+  allowedPackages: string[];
+  status: FocusSessionStatus;
+  tokensEarned: number;
+}
+
+interface FocusState {
+  activeSession: FocusSession | null;
+  history: FocusSession[]; // finished sessions, newest first
+  allowList: string[]; // last allow-list used, preselected for the next session
+
+  // Actions
+  startSession: (session: FocusSession) => void;
+  finishSession: (
+    status: Exclude<FocusSessionStatus, 'active'>,
+    endedAt: number,
+    tokensEarned: number
+  ) => FocusSession | null;
+  setAllowList: (packageNames: string[]) => void;
+  getCompletedSessions: (since: number) => FocusSession[];
+}
+
+export const useFocusStore = create<FocusState>()(
+  persist(
+    (set, get) => ({
+      activeSession: null,
+      history: [],
+      allowList: [],
+
+      startSession: (session) => set({ activeSession: session }),
+
+      finishSession: (status, endedAt, tokensEarned) => {
+        const { activeSession } = get();
+        if (!activeSession) return null;
+
+        const finished: FocusSession = { ...activeSession, status, endedAt, tokensEarned };
+        set((state) => ({
+          activeSession: null,
+          history: [finished, ...state.history].slice(0, CONSTANTS.FOCUS.MAX_HISTORY),
+        }));
+        return finished;
+      },
+
+      setAllowList: (packageNames) => set({ allowList: packageNames }),
+
+      getCompletedSessions: (since) =>
+        get().history.filter(
+          session => session.status === 'completed' && (session.endedAt || 0) >= since
+        ),
+    }),
+    {
+      name: 'foom-focus-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
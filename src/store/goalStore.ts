@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ScreenTimeGoal } from '../auth/AuthContext';
+import { CONSTANTS } from '../utils/constants';
+
+export type GoalChangeSource = 'setup' | 'settings' | 'coach';
+
+export interface GoalChange {
+  id: string;
+  changedAt: number;
+  previousGoal: ScreenTimeGoal | null; // null for the first goal
+  goal: ScreenTimeGoal;
+  source: GoalChangeSource;
+}
+
+export interface GoalProposal {
+  id: string;
+  createdAt: number;
+  direction: 'tighten' | 'relax';
+  currentGoal: ScreenTimeGoal;
+  proposedGoal: ScreenTimeGoal;
+  reason: string;
+}
+
+interface GoalState {
+  proposal: GoalProposal | null;
+  history: GoalChange[]; // oldest first, for charting the goal over time
+  lastEvaluatedWeek: string | null; // week start the coach last looked at
+  decidedWeek: string | null; // weeks before this one no longer count
+
+  // Actions
+  setProposal: (proposal: GoalProposal | null) => void;
+  setLastEvaluatedWeek: (weekStart: string) => void;
+  recordGoalChange: (change: GoalChange, weekStart: string) => void;
+  markDecided: (weekStart: string) => void;
+}
+
+export const useGoalStore = create<GoalState>()(
+  persist(
+    (set) => ({
+      proposal: null,
+      history: [],
+      lastEvaluatedWeek: null,
+      decidedWeek: null,
+
+      setProposal: (proposal) => set({ proposal }),
+
+      setLastEvaluatedWeek: (weekStart) => set({ lastEvaluatedWeek: weekStart }),
+
+      recordGoalChange: (change, weekStart) =>
+        set((state) => ({
+          history: [...state.history, change].slice(-CONSTANTS.GOAL_COACH.MAX_HISTORY),
+          // Past weeks were judged against the old goal
+          proposal: null,
+          decidedWeek: weekStart,
+        })),
+
+      markDecided: (weekStart) => set({ proposal: null, decidedWeek: weekStart }),
+    }),
+    {
+      name: 'foom-goal-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
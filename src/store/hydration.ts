@@ -0,0 +1,39 @@
+import { useSettingsStore } from './settingsStore';
+import { useScreenTimeStore } from './screenTimeStore';
+import { useSyncStore } from './syncStore';
+import { useAppCatalogStore } from './appCatalogStore';
+import { useAuthStore } from './authStore';
+import { usePermissionStore } from './permissionStore';
+import { useWalletStore } from './walletStore';
+import { useFocusStore } from './focusStore';
+import { useChallengeStore } from './challengeStore';
+import { useEventCalendarStore } from './eventCalendarStore';
+import { useGoalStore } from './goalStore';
+import { useAchievementStore } from './achievementStore';
+
+const PERSISTED_STORES = [
+  useSettingsStore,
+  useScreenTimeStore,
+  useSyncStore,
+  useAppCatalogStore,
+  useAuthStore,
+  usePermissionStore,
+  useWalletStore,
+  useFocusStore,
+  useChallengeStore,
+  useEventCalendarStore,
+  useGoalStore,
+  useAchievementStore,
+];
+
+/**
+ * Load every persisted store that hasn't finished loading. Stored state
+ * replaces whatever was written before it arrived, so anything that writes
+ * outside a screen (collection, settlement, headless tasks) awaits this
+ * first.
+ */
+export const ensureStoresHydrated = async (): Promise<void> => {
+  await Promise.all(
+    PERSISTED_STORES.filter(store => !store.persist.hasHydrated()).map(store => store.persist.rehydrate())
+  );
+};
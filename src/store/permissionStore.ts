@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type UsageAccessState =
+  | 'unknown'         // never checked
+  | 'denied'          // checked and not granted
+  | 'settings_opened' // user was sent to the Usage Access page, awaiting return
+  | 'granted'
+  | 'revoked';        // was granted before, now turned off
+
+interface PermissionState {
+  usageAccess: UsageAccessState;
+  usageAccessCheckedAt: number;
+  usageAccessGrantedAt: number; // last time access turned on; 0 if it never was
+
+  // Actions
+  setUsageAccess: (state: UsageAccessState) => void;
+}
+
+export const usePermissionStore = create<PermissionState>()(
+  persist(
+    (set) => ({
+      usageAccess: 'unknown',
+      usageAccessCheckedAt: 0,
+      usageAccessGrantedAt: 0,
+
+      setUsageAccess: (usageAccess) =>
+        set((state) => ({
+          usageAccess,
+          usageAccessCheckedAt: Date.now(),
+          usageAccessGrantedAt:
+            usageAccess === 'granted' && state.usageAccess !== 'granted'
+              ? Date.now()
+              : state.usageAccessGrantedAt,
+        })),
+    }),
+    {
+      name: 'foom-permission-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -1,19 +1,72 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getDateString,
+  getDayWindow,
+  getRecentDateStrings,
+  getTodayDateString,
+  shiftDateString,
+} from '../utils/dates';
+import { generateId } from '../utils/helpers';
+import { CONSTANTS } from '../utils/constants';
+import { categorizeApp } from '../services/appCatalog';
+import type { RewardBreakdown } from '../services/rewardsEngine';
+import type { DowntimeCompliance } from '../services/downtime';
 
 export interface AppUsage {
   packageName: string;
   appName: string;
+  category: string; // a value of CONSTANTS.SCREEN_TIME_CATEGORIES
   timeSpent: number; // in milliseconds
   lastUsed: number;
 }
 
+export interface UsageSession {
+  packageName: string;
+  appName: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface HourlyUsageBucket {
+  hour: number; // 0-23, local time
+  totalTime: number; // in milliseconds
+  apps: Record<string, number>; // packageName -> milliseconds
+}
+
 export interface DailyScreenTime {
   date: string; // YYYY-MM-DD
   totalTime: number; // in milliseconds
   apps: AppUsage[];
   tokensEarned: number;
+  rewardBreakdown?: RewardBreakdown[]; // absent on records from older versions
+  downtime?: DowntimeCompliance;
+  settledAt?: number; // when the day's tokens were credited; final after this
+  streakFreezeUsed?: boolean; // a missed day a streak freeze covered
+  unmeasured?: boolean; // usage couldn't be read; earns nothing and counts as missed
+}
+
+export interface LimitExtension {
+  extraMinutes: number; // unlocked on top of the daily limit today
+  freeMinuteUsed: boolean;
+}
+
+export type LimitWarningLevel = 'warning' | 'reached';
+
+// gentle: shield can be dismissed until the window ends; strict: no way past
+export type DowntimeStrictness = 'gentle' | 'strict';
+
+export interface DowntimeSchedule {
+  id: string;
+  name: string;
+  daysOfWeek: number[]; // 0 = Sunday; the day the window starts on
+  startMinute: number; // minutes after local midnight
+  endMinute: number; // earlier than startMinute for windows that run past midnight
+  packageNames: string[];
+  categories: string[]; // values of CONSTANTS.SCREEN_TIME_CATEGORIES
+  strictness: DowntimeStrictness;
+  enabled: boolean;
 }
 
 export interface BlockedApp {
@@ -23,11 +76,34 @@ export interface BlockedApp {
   dailyLimit?: number; // in minutes
 }
 
+// Applies to every app assigned to the category, including ones installed later
+export interface CategoryLimit {
+  category: string; // a value of CONSTANTS.SCREEN_TIME_CATEGORIES
+  isBlocked: boolean;
+  dailyLimit?: number; // in minutes, shared by all apps in the category
+}
+
+// Advanced by daily settlement, one closed day at a time
+export interface StreakState {
+  current: number; // consecutive days that met the goal
+  longest: number;
+  lastQualifyingDate: string | null; // YYYY-MM-DD of the latest day that counted
+  freezeTokens: number; // missed days that can be forgiven
+}
+
 interface ScreenTimeState {
   dailyScreenTime: Record<string, DailyScreenTime>;
   blockedApps: BlockedApp[];
+  categoryLimits: CategoryLimit[];
   currentDayUsage: AppUsage[];
+  currentDaySessions: UsageSession[];
+  currentUsageDate: string; // YYYY-MM-DD the current day usage belongs to
+  limitWarningsSent: Record<string, LimitWarningLevel>; // limit key -> highest warning sent today
+  limitExtensions: Record<string, LimitExtension>; // limit key -> today's unlocks
+  downtimeSchedules: DowntimeSchedule[];
+  downtimeOverrides: Record<string, number>; // packageName -> gentle downtime ignored until
   totalTokensEarned: number;
+  streak: StreakState;
   lastSyncTime: number;
   
   // Actions
@@ -35,15 +111,87 @@ interface ScreenTimeState {
   addBlockedApp: (app: BlockedApp) => void;
   removeBlockedApp: (packageName: string) => void;
   updateBlockedApp: (packageName: string, updates: Partial<BlockedApp>) => void;
+  setCategoryLimit: (limit: CategoryLimit) => void;
+  removeCategoryLimit: (category: string) => void;
   updateCurrentUsage: (usage: AppUsage[]) => void;
+  updateCurrentSessions: (sessions: UsageSession[]) => void;
+  startNewDay: (date: string) => void;
+  markLimitWarningSent: (limitKey: string, level: LimitWarningLevel) => void;
+  extendLimit: (limitKey: string, minutes: number, free: boolean) => void;
+  addDowntimeSchedule: (schedule: Omit<DowntimeSchedule, 'id'>) => void;
+  updateDowntimeSchedule: (id: string, updates: Partial<DowntimeSchedule>) => void;
+  removeDowntimeSchedule: (id: string) => void;
+  ignoreDowntime: (packageName: string, until: number) => void;
   addTokens: (tokens: number) => void;
+  recordStreakDay: (date: string, qualified: boolean) => void;
+  addStreakFreeze: () => void;
+  consumeStreakFreeze: (date: string) => void;
   resetDailyData: () => void;
   getTodayScreenTime: () => DailyScreenTime | null;
   getWeeklyScreenTime: () => DailyScreenTime[];
+  getHourlyUsage: () => HourlyUsageBucket[];
+  getAppSessions: (packageName: string) => UsageSession[];
 }
 
-const getTodayDateString = () => {
-  return new Date().toISOString().split('T')[0];
+/**
+ * Split sessions into 24 hourly buckets starting at dayStart, labelled
+ * with their local clock hour. Sessions that cross an hour boundary are
+ * divided between both hours.
+ */
+export const aggregateSessionsByHour = (
+  sessions: UsageSession[],
+  dayStart: number
+): HourlyUsageBucket[] => {
+  const hourStarts = Array.from({ length: 24 }, (_, index) => {
+    const hourStart = new Date(dayStart);
+    hourStart.setHours(hourStart.getHours() + index, 0, 0, 0);
+    return hourStart;
+  });
+
+  const buckets: HourlyUsageBucket[] = hourStarts.map(hourStart => ({
+    hour: hourStart.getHours(),
+    totalTime: 0,
+    apps: {},
+  }));
+
+  sessions.forEach(session => {
+    for (let index = 0; index < 24; index++) {
+      const hourStart = hourStarts[index].getTime();
+      const hourEnd = hourStart + 60 * 60 * 1000;
+
+      const overlap = Math.min(session.endTime, hourEnd) - Math.max(session.startTime, hourStart);
+      if (overlap > 0) {
+        const bucket = buckets[index];
+        bucket.totalTime += overlap;
+        bucket.apps[session.packageName] = (bucket.apps[session.packageName] || 0) + overlap;
+      }
+    }
+  });
+
+  return buckets;
+};
+
+/**
+ * Version 0 keyed days by their UTC date. Move each record to the local
+ * day its usage actually happened on, keeping the larger total when two
+ * records land on the same day.
+ */
+const rekeyDailyScreenTime = (
+  dailyScreenTime: Record<string, DailyScreenTime>
+): Record<string, DailyScreenTime> => {
+  const rekeyed: Record<string, DailyScreenTime> = {};
+
+  Object.entries(dailyScreenTime).forEach(([key, record]) => {
+    const lastUsed = Math.max(0, ...record.apps.map(app => app.lastUsed));
+    const date = lastUsed > 0 ? getDateString(lastUsed) : key;
+    const existing = rekeyed[date];
+
+    if (!existing || record.totalTime > existing.totalTime) {
+      rekeyed[date] = { ...record, date };
+    }
+  });
+
+  return rekeyed;
 };
 
 export const useScreenTimeStore = create<ScreenTimeState>()(
@@ -51,8 +199,21 @@ export const useScreenTimeStore = create<ScreenTimeState>()(
     (set, get) => ({
       dailyScreenTime: {},
       blockedApps: [],
+      categoryLimits: [],
       currentDayUsage: [],
+      currentDaySessions: [],
+      currentUsageDate: '',
+      limitWarningsSent: {},
+      limitExtensions: {},
+      downtimeSchedules: [],
+      downtimeOverrides: {},
       totalTokensEarned: 0,
+      streak: {
+        current: 0,
+        longest: 0,
+        lastQualifyingDate: null,
+        freezeTokens: 0,
+      },
       lastSyncTime: 0,
       
       updateDailyScreenTime: (date, data) =>
@@ -80,20 +241,142 @@ export const useScreenTimeStore = create<ScreenTimeState>()(
           ),
         })),
       
+      setCategoryLimit: (limit) =>
+        set((state) => ({
+          categoryLimits: [...state.categoryLimits.filter(c => c.category !== limit.category), limit],
+        })),
+      
+      removeCategoryLimit: (category) =>
+        set((state) => ({
+          categoryLimits: state.categoryLimits.filter(limit => limit.category !== category),
+        })),
+      
       updateCurrentUsage: (usage) =>
         set({
           currentDayUsage: usage,
           lastSyncTime: Date.now(),
         }),
       
+      updateCurrentSessions: (sessions) =>
+        set({
+          currentDaySessions: sessions,
+        }),
+      
+      startNewDay: (date) =>
+        set({
+          currentDayUsage: [],
+          currentDaySessions: [],
+          currentUsageDate: date,
+          limitWarningsSent: {},
+          limitExtensions: {},
+        }),
+      
+      markLimitWarningSent: (limitKey, level) =>
+        set((state) => ({
+          limitWarningsSent: {
+            ...state.limitWarningsSent,
+            [limitKey]: level,
+          },
+        })),
+      
+      // The new allowance gets its own warnings
+      extendLimit: (limitKey, minutes, free) =>
+        set((state) => {
+          const current = state.limitExtensions[limitKey] || { extraMinutes: 0, freeMinuteUsed: false };
+          const { [limitKey]: _rearmed, ...limitWarningsSent } = state.limitWarningsSent;
+          return {
+            limitWarningsSent,
+            limitExtensions: {
+              ...state.limitExtensions,
+              [limitKey]: {
+                extraMinutes: current.extraMinutes + minutes,
+                freeMinuteUsed: current.freeMinuteUsed || free,
+              },
+            },
+          };
+        }),
+      
+      addDowntimeSchedule: (schedule) =>
+        set((state) => ({
+          downtimeSchedules: [
+            ...state.downtimeSchedules,
+            { ...schedule, id: generateId() },
+          ],
+        })),
+      
+      updateDowntimeSchedule: (id, updates) =>
+        set((state) => ({
+          downtimeSchedules: state.downtimeSchedules.map(schedule =>
+            schedule.id === id ? { ...schedule, ...updates } : schedule
+          ),
+        })),
+      
+      removeDowntimeSchedule: (id) =>
+        set((state) => ({
+          downtimeSchedules: state.downtimeSchedules.filter(schedule => schedule.id !== id),
+        })),
+      
+      // Overnight windows outlive the day rollover, so overrides expire on their own
+      ignoreDowntime: (packageName, until) =>
+        set((state) => {
+          const now = Date.now();
+          const active = Object.entries(state.downtimeOverrides).filter(([, ignoredUntil]) => ignoredUntil > now);
+          return {
+            downtimeOverrides: { ...Object.fromEntries(active), [packageName]: until },
+          };
+        }),
+      
       addTokens: (tokens) =>
         set((state) => ({
           totalTokensEarned: state.totalTokensEarned + tokens,
         })),
       
+      recordStreakDay: (date, qualified) =>
+        set((state) => {
+          const { streak } = state;
+          // Days are settled in order; anything older was already counted
+          if (streak.lastQualifyingDate && date <= streak.lastQualifyingDate) {
+            return {};
+          }
+
+          if (!qualified) {
+            return { streak: { ...streak, current: 0 } };
+          }
+
+          const continues = streak.lastQualifyingDate === shiftDateString(date, -1);
+          const current = continues ? streak.current + 1 : 1;
+          return {
+            streak: {
+              ...streak,
+              current,
+              longest: Math.max(streak.longest, current),
+              lastQualifyingDate: date,
+            },
+          };
+        }),
+      
+      addStreakFreeze: () =>
+        set((state) => ({
+          streak: {
+            ...state.streak,
+            freezeTokens: Math.min(CONSTANTS.STREAK_FREEZE.MAX_HELD, state.streak.freezeTokens + 1),
+          },
+        })),
+      
+      // The missed day counts as kept without growing the streak
+      consumeStreakFreeze: (date) =>
+        set((state) => ({
+          streak: {
+            ...state.streak,
+            freezeTokens: Math.max(0, state.streak.freezeTokens - 1),
+            lastQualifyingDate: date,
+          },
+        })),
+      
       resetDailyData: () =>
         set({
           currentDayUsage: [],
+          currentDaySessions: [],
         }),
       
       getTodayScreenTime: () => {
@@ -103,21 +386,42 @@ export const useScreenTimeStore = create<ScreenTimeState>()(
       
       getWeeklyScreenTime: () => {
         const { dailyScreenTime } = get();
-        const weekDates = Array.from({ length: 7 }, (_, i) => {
-          const date = new Date();
-          date.setDate(date.getDate() - i);
-          return date.toISOString().split('T')[0];
-        });
         
-        return weekDates
+        return getRecentDateStrings(7)
           .map(date => dailyScreenTime[date])
-          .filter(Boolean)
-          .reverse();
+          .filter(Boolean);
+      },
+      
+      getHourlyUsage: () => {
+        const { start } = getDayWindow(getTodayDateString());
+        return aggregateSessionsByHour(get().currentDaySessions, start);
+      },
+      
+      getAppSessions: (packageName) => {
+        return get().currentDaySessions.filter(session => session.packageName === packageName);
       },
     }),
     {
       name: 'foom-screentime-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      version: 2,
+      migrate: (persistedState, version) => {
+        const state = persistedState as ScreenTimeState;
+        if (version < 1 && state?.dailyScreenTime) {
+          state.dailyScreenTime = rekeyDailyScreenTime(state.dailyScreenTime);
+        }
+        if (version < 2 && state) {
+          // Usage recorded before categories existed
+          const categorize = (apps: AppUsage[] = []) =>
+            apps.map(app => ({ ...app, category: app.category || categorizeApp(app.packageName) }));
+
+          Object.values(state.dailyScreenTime || {}).forEach(record => {
+            record.apps = categorize(record.apps);
+          });
+          state.currentDayUsage = categorize(state.currentDayUsage);
+        }
+        return state;
+      },
     }
   )
 );
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CONSTANTS } from '../utils/constants';
+
+interface SettingsState {
+  dayStartHour: number; // 0-23, local hour at which a new tracking day begins
+
+  // Actions
+  setDayStartHour: (hour: number) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      dayStartHour: CONSTANTS.DEFAULT_SETTINGS.DAY_START_HOUR,
+
+      setDayStartHour: (hour) =>
+        set({
+          dayStartHour: Math.min(23, Math.max(0, Math.floor(hour))),
+        }),
+    }),
+    {
+      name: 'foom-settings-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
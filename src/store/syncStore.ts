@@ -0,0 +1,61 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DailyScreenTime } from './screenTimeStore';
+
+interface SyncState {
+  pendingScreenTime: Record<string, DailyScreenTime>; // date -> latest unsynced record
+  lastSyncedAt: number;
+  lastSyncError: string | null;
+  lastBackgroundRunAt: number;
+
+  // Actions
+  enqueueScreenTime: (data: DailyScreenTime) => void;
+  markScreenTimeSynced: (records: DailyScreenTime[]) => void;
+  setSyncError: (error: string | null) => void;
+  setLastBackgroundRun: (timestamp: number) => void;
+}
+
+export const useSyncStore = create<SyncState>()(
+  persist(
+    (set) => ({
+      pendingScreenTime: {},
+      lastSyncedAt: 0,
+      lastSyncError: null,
+      lastBackgroundRunAt: 0,
+
+      enqueueScreenTime: (data) =>
+        set((state) => ({
+          pendingScreenTime: {
+            ...state.pendingScreenTime,
+            [data.date]: data,
+          },
+        })),
+
+      // Only drop records that weren't replaced while the upload was in flight
+      markScreenTimeSynced: (records) =>
+        set((state) => {
+          const pendingScreenTime = { ...state.pendingScreenTime };
+          records.forEach(record => {
+            if (pendingScreenTime[record.date] === record) {
+              delete pendingScreenTime[record.date];
+            }
+          });
+
+          return {
+            pendingScreenTime,
+            lastSyncedAt: Date.now(),
+            lastSyncError: null,
+          };
+        }),
+
+      setSyncError: (lastSyncError) => set({ lastSyncError }),
+
+      setLastBackgroundRun: (lastBackgroundRunAt) => set({ lastBackgroundRunAt }),
+    }),
+    {
+      name: 'foom-sync-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -1,22 +1,74 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RewardBreakdown } from '../services/rewardsEngine';
+import { KES, Tokens, asTokens, kesToTokens, tokensToKES } from '../utils/money';
 
+/**
+ * Why tokens moved. Codes are fixed; the description carries the detail.
+ */
+export type LedgerReason =
+  | 'earned'
+  | 'invested'
+  | 'withdrawn'
+  | 'unlock'
+  | 'stake'
+  | 'refund'
+  | 'adjustment';
+
+/**
+ * Reasons tokens can be spent from the wallet for. Purchases such as
+ * streak freezes are adjustments; the description names the item.
+ */
+export type SpendReason = Extract<LedgerReason, 'unlock' | 'adjustment'>;
+
+/**
+ * Where tokens sit. `issued` is where rewards come from and `spent` is where
+ * spending goes, so together with the user's accounts every entry balances.
+ */
+export type LedgerAccount = 'wallet' | 'escrow' | 'invested' | 'issued' | 'spent';
+
+/**
+ * One append-only ledger entry: `amount` tokens leave `from` and arrive in
+ * `to`. Balances are never stored, only summed from entries. A zero amount
+ * records something that moved no tokens, like using a streak freeze.
+ */
+export interface LedgerEntry {
+  id: string;
+  reason: LedgerReason;
+  from: LedgerAccount;
+  to: LedgerAccount;
+  amount: Tokens; // never negative
+  description: string;
+  timestamp: number;
+  relatedScreenTime?: number; // in minutes
+  relatedApp?: string; // package name, for unlocks
+  relatedDate?: string; // tracking day, for daily settlements and freezes
+  breakdown?: RewardBreakdown[];
+}
+
+/**
+ * A ledger entry as seen from the user's wallet: positive when tokens came
+ * in, negative when they went out, zero when they moved elsewhere
+ */
 export interface TokenTransaction {
   id: string;
-  type: 'earned' | 'invested' | 'withdrawn';
+  type: LedgerReason;
   amount: number;
   description: string;
   timestamp: number;
   relatedScreenTime?: number; // in minutes
+  relatedApp?: string; // package name, for unlocks
+  relatedDate?: string; // tracking day, for daily settlements and freezes
+  breakdown?: RewardBreakdown[];
 }
 
 export interface Investment {
   id: string;
   mmfName: string;
-  amount: number;
-  tokensInvested: number;
-  currentValue: number;
+  amount: KES; // principal
+  tokensInvested: Tokens;
+  currentValue: KES;
   returnRate: number;
   investedAt: number;
   maturityDate?: number;
@@ -32,21 +84,120 @@ export interface SavingsGoal {
   createdAt: number;
 }
 
+const ACCOUNTS: LedgerAccount[] = ['wallet', 'escrow', 'invested', 'issued', 'spent'];
+// Accounts holding the user's tokens can never go below zero
+const USER_ACCOUNTS: LedgerAccount[] = ['wallet', 'escrow', 'invested'];
+
+/**
+ * Net tokens held by an account after the given entries
+ */
+export const getAccountBalance = (ledger: LedgerEntry[], account: LedgerAccount): Tokens =>
+  asTokens(
+    ledger.reduce(
+      (balance, entry) =>
+        balance + (entry.to === account ? entry.amount : 0) - (entry.from === account ? entry.amount : 0),
+      0
+    )
+  );
+
+const toTransaction = ({ reason, from, to, amount, ...entry }: LedgerEntry): TokenTransaction => ({
+  ...entry,
+  type: reason,
+  amount: to === 'wallet' ? amount : from === 'wallet' ? -amount : 0,
+});
+
+/**
+ * Everything the wallet shows that comes from the ledger
+ */
+const deriveFromLedger = (ledger: LedgerEntry[]) => ({
+  ledger,
+  tokenBalance: getAccountBalance(ledger, 'wallet'),
+  totalEarned: asTokens(
+    ledger
+      .filter(entry => entry.reason === 'earned')
+      .reduce((total, entry) => total + entry.amount, 0)
+  ),
+  totalInvested: tokensToKES(getAccountBalance(ledger, 'invested')),
+  transactions: ledger.map(toTransaction),
+});
+
+/**
+ * List what is wrong with a ledger: malformed or duplicate entries, user
+ * accounts below zero, or invested tokens that don't match the open
+ * investments. Empty when the books are sound.
+ */
+export const checkLedgerInvariants = (ledger: LedgerEntry[], investments: Investment[]): string[] => {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  ledger.forEach(entry => {
+    if (seen.has(entry.id)) problems.push(`Duplicate entry ${entry.id}`);
+    seen.add(entry.id);
+
+    if (!ACCOUNTS.includes(entry.from) || !ACCOUNTS.includes(entry.to) || entry.from === entry.to) {
+      problems.push(`Entry ${entry.id} moves ${entry.from} -> ${entry.to}`);
+    }
+    if (!(entry.amount >= 0)) problems.push(`Entry ${entry.id} has amount ${entry.amount}`);
+  });
+
+  USER_ACCOUNTS.forEach(account => {
+    const balance = getAccountBalance(ledger, account);
+    if (balance < 0) problems.push(`${account} balance is ${balance}`);
+  });
+
+  const investedTokens = investments.reduce((total, investment) => total + investment.tokensInvested, 0);
+  if (getAccountBalance(ledger, 'invested') !== investedTokens) {
+    problems.push(`Invested balance doesn't match ${investments.length} open investments`);
+  }
+
+  return problems;
+};
+
+const generateId = () => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+const createEntry = (
+  reason: LedgerReason,
+  from: LedgerAccount,
+  to: LedgerAccount,
+  amount: Tokens,
+  description: string,
+  details: Partial<LedgerEntry> = {}
+): LedgerEntry => ({
+  id: generateId(),
+  timestamp: Date.now(),
+  ...details,
+  reason,
+  from,
+  to,
+  amount,
+  description,
+});
+
 interface WalletState {
-  tokenBalance: number;
-  totalEarned: number;
-  totalInvested: number;
+  ledger: LedgerEntry[]; // newest first; only ever appended to
+  tokenBalance: Tokens;
+  totalEarned: Tokens;
+  totalInvested: KES;
   currentSavings: number;
-  transactions: TokenTransaction[];
+  transactions: TokenTransaction[]; // the ledger from the wallet's side
   investments: Investment[];
   savingsGoals: SavingsGoal[];
+  ledgerProblems: string[]; // checks the stored ledger failed when loaded
   
   // Actions
-  addTokens: (amount: number, screenTime?: number) => void;
-  deductTokens: (amount: number, reason: string) => void;
-  addTransaction: (transaction: Omit<TokenTransaction, 'id'>) => void;
-  investTokens: (mmfName: string, tokens: number, kesAmount: number) => void;
-  updateInvestmentValue: (investmentId: string, newValue: number, returnRate: number) => void;
+  addTokens: (amount: Tokens, screenTime?: number, description?: string, breakdown?: RewardBreakdown[]) => void;
+  deductTokens: (
+    amount: Tokens,
+    reason: SpendReason,
+    description: string,
+    details?: Pick<LedgerEntry, 'relatedApp' | 'relatedDate'>
+  ) => void;
+  stakeTokens: (amount: Tokens, description: string) => void;
+  releaseStake: (amount: Tokens, description: string) => void;
+  forfeitStake: (amount: Tokens, description: string) => void;
+  creditSettlement: (entry: Pick<LedgerEntry, 'id' | 'amount' | 'description'> & Partial<LedgerEntry>) => boolean;
+  investTokens: (mmfName: string, tokens: Tokens) => void;
+  updateInvestmentValue: (investmentId: string, newValue: KES, returnRate: number) => void;
   withdrawInvestment: (investmentId: string) => void;
   createSavingsGoal: (goal: Omit<SavingsGoal, 'id' | 'currentAmount' | 'createdAt'>) => void;
   updateSavingsGoal: (goalId: string, updates: Partial<SavingsGoal>) => void;
@@ -55,175 +206,281 @@ interface WalletState {
   getTotalPortfolioValue: () => number;
 }
 
-const generateId = () => Date.now().toString() + Math.random().toString(36).substr(2, 9);
+type PersistedWallet = Pick<WalletState, 'ledger' | 'currentSavings' | 'investments' | 'savingsGoals'>;
+
+/**
+ * A version 0 transaction: signed from the wallet's side, with a type per
+ * feature instead of a reason code
+ */
+interface LegacyTransaction extends Omit<TokenTransaction, 'type'> {
+  type: 'earned' | 'invested' | 'withdrawn' | 'unlock' | 'streak_freeze' | 'stake' | 'refund';
+}
+
+/**
+ * The version 0 wallet as stored: totals kept next to the transactions
+ * rather than derived from them
+ */
+interface LegacyWallet {
+  tokenBalance?: number;
+  currentSavings?: number;
+  transactions?: LegacyTransaction[];
+  investments?: Investment[];
+  savingsGoals?: SavingsGoal[];
+}
+
+const isLegacyTransaction = (transaction: unknown): transaction is LegacyTransaction => {
+  const candidate = transaction as Partial<LegacyTransaction> | null;
+  return (
+    !!candidate &&
+    typeof candidate.id === 'string' &&
+    typeof candidate.type === 'string' &&
+    typeof candidate.amount === 'number'
+  );
+};
+
+/**
+ * Rebuild a ledger from the version 0 wallet, which kept signed
+ * transactions next to separately mutated totals. Whatever the old
+ * transactions can't explain is booked as an adjustment.
+ */
+const migrateLegacyWallet = (persistedState: unknown): PersistedWallet => {
+  const state: LegacyWallet = persistedState && typeof persistedState === 'object' ? persistedState : {};
+  const legacy = (Array.isArray(state.transactions) ? state.transactions : [])
+    .filter(isLegacyTransaction)
+    .reverse(); // oldest first
+  const ledger: LedgerEntry[] = [];
+  const book = (entry: LedgerEntry) => ledger.unshift(entry);
+
+  legacy.forEach(({ type, amount, id, ...details }) => {
+    if (!amount) return;
+    const tokens = asTokens(Math.abs(amount));
+    const entry = (reason: LedgerReason, from: LedgerAccount, to: LedgerAccount) =>
+      book({ ...details, id, reason, from, to, amount: tokens });
+
+    if (type === 'earned') entry('earned', 'issued', 'wallet');
+    else if (type === 'invested') entry('invested', 'wallet', 'invested');
+    else if (type === 'stake') entry('stake', 'wallet', 'escrow');
+    else if (type === 'refund') entry('refund', 'escrow', 'wallet');
+    else if (type === 'streak_freeze') entry('adjustment', 'wallet', 'spent');
+    else entry(type === 'unlock' ? 'unlock' : 'withdrawn', 'wallet', 'spent');
+  });
+
+  // Withdrawals used to be booked as earnings and left the tokens invested
+  const investments = Array.isArray(state.investments) ? state.investments : [];
+  const investedTokens = investments.reduce((total, investment) => total + investment.tokensInvested, 0);
+  const investedDrift = getAccountBalance(ledger, 'invested') - investedTokens;
+  if (investedDrift !== 0) {
+    book(
+      investedDrift > 0
+        ? createEntry('adjustment', 'invested', 'issued', asTokens(investedDrift), 'Closed out withdrawn investments')
+        : createEntry('adjustment', 'issued', 'invested', asTokens(-investedDrift), 'Opened investments missing from history')
+    );
+  }
+
+  const balanceDrift = (state.tokenBalance || 0) - getAccountBalance(ledger, 'wallet');
+  if (balanceDrift !== 0) {
+    book(
+      balanceDrift > 0
+        ? createEntry('adjustment', 'issued', 'wallet', asTokens(balanceDrift), 'Balance carried over')
+        : createEntry('adjustment', 'wallet', 'issued', asTokens(-balanceDrift), 'Balance carried over')
+    );
+  }
+
+  return {
+    ledger,
+    currentSavings: state.currentSavings || 0,
+    investments,
+    savingsGoals: Array.isArray(state.savingsGoals) ? state.savingsGoals : [],
+  };
+};
 
 export const useWalletStore = create<WalletState>()(
   persist(
-    (set, get) => ({
-      tokenBalance: 0,
-      totalEarned: 0,
-      totalInvested: 0,
-      currentSavings: 0,
-      transactions: [],
-      investments: [],
-      savingsGoals: [],
-      
-      addTokens: (amount, screenTime) => {
-        const transaction: TokenTransaction = {
-          id: generateId(),
-          type: 'earned',
-          amount,
-          description: screenTime 
-            ? `Earned from ${Math.round(screenTime)} minutes of reduced screen time`
-            : 'Tokens earned',
-          timestamp: Date.now(),
-          relatedScreenTime: screenTime,
-        };
-        
-        set((state) => ({
-          tokenBalance: state.tokenBalance + amount,
-          totalEarned: state.totalEarned + amount,
-          transactions: [transaction, ...state.transactions],
-        }));
-      },
-      
-      deductTokens: (amount, reason) => {
-        const state = get();
-        if (state.tokenBalance < amount) {
+    (set, get) => {
+      const append = (...entries: LedgerEntry[]) =>
+        set((state) => deriveFromLedger([...entries.reverse(), ...state.ledger]));
+
+      const requireBalance = (amount: number) => {
+        if (get().tokenBalance < amount) {
           throw new Error('Insufficient token balance');
         }
+      };
+
+      return {
+        ...deriveFromLedger([]),
+        currentSavings: 0,
+        investments: [],
+        savingsGoals: [],
+        ledgerProblems: [],
         
-        const transaction: TokenTransaction = {
-          id: generateId(),
-          type: 'withdrawn',
-          amount: -amount,
-          description: reason,
-          timestamp: Date.now(),
-        };
+        addTokens: (amount, screenTime, description, breakdown) => {
+          append(
+            createEntry(
+              'earned',
+              'issued',
+              'wallet',
+              amount,
+              description || (screenTime 
+                ? `Earned from ${Math.round(screenTime)} minutes of reduced screen time`
+                : 'Tokens earned'),
+              { relatedScreenTime: screenTime, breakdown }
+            )
+          );
+        },
         
-        set({
-          tokenBalance: state.tokenBalance - amount,
-          transactions: [transaction, ...state.transactions],
-        });
-      },
-      
-      addTransaction: (transactionData) => {
-        const transaction: TokenTransaction = {
-          ...transactionData,
-          id: generateId(),
-        };
+        deductTokens: (amount, reason, description, details) => {
+          requireBalance(amount);
+          append(createEntry(reason, 'wallet', 'spent', amount, description, details));
+        },
         
-        set((state) => ({
-          transactions: [transaction, ...state.transactions],
-        }));
-      },
-      
-      investTokens: (mmfName, tokens, kesAmount) => {
-        const state = get();
-        if (state.tokenBalance < tokens) {
-          throw new Error('Insufficient token balance');
-        }
+        // Staked tokens are held aside until the challenge is decided
+        stakeTokens: (amount, description) => {
+          requireBalance(amount);
+          append(createEntry('stake', 'wallet', 'escrow', amount, description));
+        },
         
-        const investment: Investment = {
-          id: generateId(),
-          mmfName,
-          amount: kesAmount,
-          tokensInvested: tokens,
-          currentValue: kesAmount,
-          returnRate: 0,
-          investedAt: Date.now(),
-        };
+        releaseStake: (amount, description) => {
+          append(createEntry('refund', 'escrow', 'wallet', amount, description));
+        },
         
-        const transaction: TokenTransaction = {
-          id: generateId(),
-          type: 'invested',
-          amount: -tokens,
-          description: `Invested in ${mmfName}`,
-          timestamp: Date.now(),
-        };
+        forfeitStake: (amount, description) => {
+          append(createEntry('stake', 'escrow', 'spent', amount, description));
+        },
         
-        set({
-          tokenBalance: state.tokenBalance - tokens,
-          totalInvested: state.totalInvested + kesAmount,
-          investments: [...state.investments, investment],
-          transactions: [transaction, ...state.transactions],
-        });
-      },
-      
-      updateInvestmentValue: (investmentId, newValue, returnRate) =>
-        set((state) => ({
-          investments: state.investments.map(inv =>
-            inv.id === investmentId
-              ? { ...inv, currentValue: newValue, returnRate }
-              : inv
-          ),
-        })),
-      
-      withdrawInvestment: (investmentId) => {
-        const state = get();
-        const investment = state.investments.find(inv => inv.id === investmentId);
-        if (!investment) return;
+        creditSettlement: (entryData) => {
+          // The id is derived from the user and day, so a repeat is a no-op
+          if (get().ledger.some(entry => entry.id === entryData.id)) {
+            return false;
+          }
+          
+          append({
+            timestamp: Date.now(),
+            ...entryData,
+            reason: 'earned',
+            from: 'issued',
+            to: 'wallet',
+          });
+          return true;
+        },
         
-        const tokensReturned = Math.round(investment.currentValue * 0.1); // 10 tokens per KES
+        investTokens: (mmfName, tokens) => {
+          requireBalance(tokens);
+          
+          const kesAmount = tokensToKES(tokens);
+          const investment: Investment = {
+            id: generateId(),
+            mmfName,
+            amount: kesAmount,
+            tokensInvested: tokens,
+            currentValue: kesAmount,
+            returnRate: 0,
+            investedAt: Date.now(),
+          };
+          
+          set((state) => ({ investments: [...state.investments, investment] }));
+          append(createEntry('invested', 'wallet', 'invested', tokens, `Invested in ${mmfName}`));
+        },
         
-        const transaction: TokenTransaction = {
-          id: generateId(),
-          type: 'earned',
-          amount: tokensReturned,
-          description: `Withdrawn from ${investment.mmfName}`,
-          timestamp: Date.now(),
-        };
+        updateInvestmentValue: (investmentId, newValue, returnRate) =>
+          set((state) => ({
+            investments: state.investments.map(inv =>
+              inv.id === investmentId
+                ? { ...inv, currentValue: newValue, returnRate }
+                : inv
+            ),
+          })),
         
-        set({
-          tokenBalance: state.tokenBalance + tokensReturned,
-          investments: state.investments.filter(inv => inv.id !== investmentId),
-          transactions: [transaction, ...state.transactions],
-        });
-      },
-      
-      createSavingsGoal: (goalData) => {
-        const goal: SavingsGoal = {
-          ...goalData,
-          id: generateId(),
-          currentAmount: 0,
-          createdAt: Date.now(),
-        };
+        withdrawInvestment: (investmentId) => {
+          const investment = get().investments.find(inv => inv.id === investmentId);
+          if (!investment) return;
+          
+          const tokensReturned = kesToTokens(investment.currentValue);
+          const principal = investment.tokensInvested;
+          const description = `Withdrawn from ${investment.mmfName}`;
+          
+          // The principal always leaves the invested account; gains come
+          // from issued tokens and losses go to spent
+          const entries = [
+            createEntry('withdrawn', 'invested', 'wallet', asTokens(Math.min(principal, tokensReturned)), description),
+          ];
+          if (tokensReturned > principal) {
+            entries.push(
+              createEntry('withdrawn', 'issued', 'wallet', asTokens(tokensReturned - principal), `${description} (returns)`)
+            );
+          } else if (tokensReturned < principal) {
+            entries.push(
+              createEntry('withdrawn', 'invested', 'spent', asTokens(principal - tokensReturned), `${description} (loss)`)
+            );
+          }
+          
+          set((state) => ({ investments: state.investments.filter(inv => inv.id !== investmentId) }));
+          append(...entries.filter(entry => entry.amount > 0));
+        },
         
-        set((state) => ({
-          savingsGoals: [...state.savingsGoals, goal],
-        }));
-      },
-      
-      updateSavingsGoal: (goalId, updates) =>
-        set((state) => ({
-          savingsGoals: state.savingsGoals.map(goal =>
-            goal.id === goalId ? { ...goal, ...updates } : goal
-          ),
-        })),
-      
-      addToSavingsGoal: (goalId, amount) =>
-        set((state) => ({
-          savingsGoals: state.savingsGoals.map(goal =>
-            goal.id === goalId
-              ? { ...goal, currentAmount: goal.currentAmount + amount }
-              : goal
-          ),
-          currentSavings: state.currentSavings + amount,
-        })),
-      
-      getRecentTransactions: (limit = 10) => {
-        return get().transactions.slice(0, limit);
-      },
-      
-      getTotalPortfolioValue: () => {
-        const { investments, currentSavings } = get();
-        const investmentValue = investments.reduce((total, inv) => total + inv.currentValue, 0);
-        return investmentValue + currentSavings;
-      },
-    }),
+        createSavingsGoal: (goalData) => {
+          const goal: SavingsGoal = {
+            ...goalData,
+            id: generateId(),
+            currentAmount: 0,
+            createdAt: Date.now(),
+          };
+          
+          set((state) => ({
+            savingsGoals: [...state.savingsGoals, goal],
+          }));
+        },
+        
+        updateSavingsGoal: (goalId, updates) =>
+          set((state) => ({
+            savingsGoals: state.savingsGoals.map(goal =>
+              goal.id === goalId ? { ...goal, ...updates } : goal
+            ),
+          })),
+        
+        addToSavingsGoal: (goalId, amount) =>
+          set((state) => ({
+            savingsGoals: state.savingsGoals.map(goal =>
+              goal.id === goalId
+                ? { ...goal, currentAmount: goal.currentAmount + amount }
+                : goal
+            ),
+            currentSavings: state.currentSavings + amount,
+          })),
+        
+        getRecentTransactions: (limit = 10) => {
+          return get().transactions.slice(0, limit);
+        },
+        
+        getTotalPortfolioValue: () => {
+          const { investments, currentSavings } = get();
+          const investmentValue = investments.reduce((total, inv) => total + inv.currentValue, 0);
+          return investmentValue + currentSavings;
+        },
+      };
+    },
     {
       name: 'foom-wallet-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      version: 1,
+      // Balances and the transaction view are rebuilt from the ledger
+      partialize: (state): PersistedWallet => ({
+        ledger: state.ledger,
+        currentSavings: state.currentSavings,
+        investments: state.investments,
+        savingsGoals: state.savingsGoals,
+      }),
+      migrate: (persistedState, version) => {
+        if (version < 1) return migrateLegacyWallet(persistedState);
+        return persistedState as PersistedWallet;
+      },
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as PersistedWallet | undefined;
+        const ledger = persisted?.ledger || [];
+        // Kept on the state so the wallet can warn that its totals are off
+        const ledgerProblems = checkLedgerInvariants(ledger, persisted?.investments || []);
+
+        return { ...currentState, ...persisted, ...deriveFromLedger(ledger), ledgerProblems };
+      },
     }
   )
-);
\ No newline at end of file
+);
@@ -5,16 +5,17 @@ export const CONSTANTS = {
   APP_NAME: 'FOOM',
   APP_VERSION: '1.0.0',
   APP_TAGLINE: 'Focus. Earn. Invest.',
+  APP_PACKAGE_NAME: 'com.foom.app',
   
   // Screen Time Constants
   TOKENS_PER_HOUR_SAVED: 10,
+  DOWNTIME_TOKENS_PER_WINDOW: 5, // bonus for each downtime window kept
   DAILY_SCREEN_TIME_GOAL_HOURS: 8,
   MAX_DAILY_SCREEN_TIME_HOURS: 16,
   MIN_DAILY_SCREEN_TIME_HOURS: 1,
   
   // Token Economics
-  TOKENS_PER_KES: 10, // 10 tokens = 1 KES
-  KES_PER_TOKEN: 0.1, // 1 token = 0.1 KES
+  TOKENS_PER_KES: 10, // the only exchange rate; convert through utils/money
   MIN_INVESTMENT_TOKENS: 100, // Minimum 100 tokens to invest
   MIN_WITHDRAWAL_TOKENS: 50, // Minimum 50 tokens to withdraw
   
@@ -195,6 +196,66 @@ export const CONSTANTS = {
     MIN_DAILY_LIMIT_MINUTES: 5,
     MAX_TRANSACTIONS_HISTORY: 1000,
     MAX_INVESTMENT_HISTORY: 100,
+    MAX_BACKFILL_DAYS: 7, // UsageStatsManager keeps about a week of daily stats
+    BACKGROUND_FETCH_INTERVAL_MINUTES: 15, // Android won't schedule more often than this
+  },
+  
+  // Daily Limit Enforcement
+  APP_LIMITS: {
+    WARNING_THRESHOLD: 0.8, // warn at 80% of the limit
+    GRACE_MINUTES: 1, // time past the limit before the shield goes up
+    FREE_UNLOCK_MINUTES: 1, // "one more minute", once per app per day
+    PAID_UNLOCKS: [
+      { minutes: 5, tokens: 10 },
+      { minutes: 15, tokens: 25 },
+    ],
+  },
+  
+  // Focus Sessions
+  FOCUS: {
+    DURATION_OPTIONS: [15, 25, 45, 60], // minutes
+    DEFAULT_DURATION_MINUTES: 25,
+    MINUTES_PER_TOKEN: 5,
+    COMPLETION_BONUS: 5, // on top of the per-minute tokens
+    MAX_HISTORY: 200,
+    // Never shielded, so calls and system screens still work mid-session
+    ALWAYS_ALLOWED: [
+      'com.android.systemui',
+      'com.android.settings',
+      'com.android.dialer',
+      'com.google.android.dialer',
+      'com.samsung.android.dialer',
+    ],
+  },
+  
+  // Challenges
+  CHALLENGES: {
+    MAX_HISTORY: 200, // finished challenges kept
+    SOCIAL_FREE_UNTIL_HOUR: 10, // local hour for the social-media-free morning
+    WEEKEND_REDUCTION: 0.2, // vs the same day last week
+    MIN_STAKE: 10, // tokens escrowed on a custom challenge
+    STAKE_BONUS_RATE: 0.5, // paid on top of the returned stake
+    MAX_CUSTOM_DAYS: 14,
+  },
+  
+  // Streak Freezes
+  STREAK_FREEZE: {
+    PRICE_TOKENS: 50,
+    MAX_HELD: 2,
+  },
+  
+  // Seasonal Events
+  EVENT_CALENDAR: {
+    REFRESH_INTERVAL_MS: 12 * 60 * 60 * 1000, // between remote config fetches
+  },
+  
+  // Goal Coach
+  GOAL_COACH: {
+    STEP_HOURS: 0.5, // how far a proposal moves the goal
+    TIGHTEN_AFTER_WEEKS: 2, // consecutive 'excellent' weeks
+    RELAX_AFTER_WEEKS: 3, // consecutive 'needs_improvement' weeks
+    MIN_DAYS_PER_WEEK: 5, // recorded days for a week to count
+    MAX_HISTORY: 100,
   },
   
   // Validation Rules
@@ -270,8 +331,12 @@ export const CONSTANTS = {
     LANGUAGE: 'en',
     CURRENCY: 'KES',
     TIME_FORMAT: '24h',
+    DAY_START_HOUR: 0, // local hour a tracking day begins
   },
   
+  // Hours a tracking day may start at (midnight to 6 AM)
+  DAY_START_HOUR_OPTIONS: [0, 1, 2, 3, 4, 5, 6],
+  
   // Feature Flags
   FEATURES: {
     BIOMETRIC_AUTH: false,
@@ -281,6 +346,7 @@ export const CONSTANTS = {
     INVESTMENT_GOALS: true,
     APP_BLOCKING: true,
     USAGE_STATS: true,
+    MOCK_USAGE_DATA: false, // Use mock usage data in dev builds
   },
   
   // Error Messages
@@ -291,6 +357,7 @@ export const CONSTANTS = {
     PERMISSION: 'Permission required. Please grant the necessary permissions.',
     UNKNOWN: 'An unexpected error occurred. Please try again.',
     INSUFFICIENT_TOKENS: 'Insufficient tokens for this transaction.',
+    SHIELD_DISMISS_FAILED: 'Your unlock went through, but the block screen could not be closed. Please reopen the app.',
     INVESTMENT_FAILED: 'Investment failed. Please try again later.',
     SYNC_FAILED: 'Failed to sync data. Please try again.',
   },
@@ -0,0 +1,92 @@
+import { useSettingsStore } from '../store/settingsStore';
+
+/**
+ * Day keys are YYYY-MM-DD in the device's local calendar. A tracking day
+ * runs from dayStartHour on that date to dayStartHour on the next, so with
+ * a 4 AM start, 2 AM on the 10th still belongs to the 9th.
+ */
+
+const pad = (value: number): string => (value < 10 ? `0${value}` : `${value}`);
+
+const parseDateString = (date: string): [number, number, number] => {
+  const [year, month, day] = date.split('-').map(Number);
+  return [year, month, day];
+};
+
+/**
+ * Current day-start hour from settings
+ */
+export const getDayStartHour = (): number => {
+  return useSettingsStore.getState().dayStartHour;
+};
+
+/**
+ * Format a Date as YYYY-MM-DD using its local calendar fields
+ */
+export const formatLocalDate = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Get the tracking day a timestamp belongs to
+ */
+export const getDateString = (
+  timestamp: number = Date.now(),
+  dayStartHour: number = getDayStartHour()
+): string => {
+  const date = new Date(timestamp);
+  date.setHours(date.getHours() - dayStartHour);
+  return formatLocalDate(date);
+};
+
+export const getTodayDateString = (): string => {
+  return getDateString();
+};
+
+/**
+ * Get the [start, end) timestamps of a tracking day
+ */
+export const getDayWindow = (
+  date: string,
+  dayStartHour: number = getDayStartHour()
+): { start: number; end: number } => {
+  const [year, month, day] = parseDateString(date);
+  return {
+    start: new Date(year, month - 1, day, dayStartHour).getTime(),
+    end: new Date(year, month - 1, day + 1, dayStartHour).getTime(),
+  };
+};
+
+/**
+ * Move a YYYY-MM-DD date string by a number of calendar days
+ */
+export const shiftDateString = (date: string, days: number): string => {
+  const [year, month, day] = parseDateString(date);
+  return formatLocalDate(new Date(year, month - 1, day + days));
+};
+
+/**
+ * Whether a YYYY-MM-DD date falls on a Saturday or Sunday
+ */
+export const isWeekendDate = (date: string): boolean => {
+  const [year, month, day] = parseDateString(date);
+  const weekday = new Date(year, month - 1, day).getDay();
+  return weekday === 0 || weekday === 6;
+};
+
+/**
+ * The Monday that starts the week a YYYY-MM-DD date is in
+ */
+export const getWeekStartDateString = (date: string): string => {
+  const [year, month, day] = parseDateString(date);
+  const weekday = new Date(year, month - 1, day).getDay();
+  return shiftDateString(date, -((weekday + 6) % 7));
+};
+
+/**
+ * The last `count` tracking days, oldest first, ending with today
+ */
+export const getRecentDateStrings = (count: number): string[] => {
+  const today = getTodayDateString();
+  return Array.from({ length: count }, (_, i) => shiftDateString(today, i - count + 1));
+};
@@ -0,0 +1,37 @@
+import { ScreenTimeGoal } from '../auth/AuthContext';
+import { useAuthStore } from '../store/authStore';
+import { CONSTANTS } from './constants';
+import { getTodayDateString, isWeekendDate } from './dates';
+
+export const DEFAULT_SCREEN_TIME_GOAL: ScreenTimeGoal = {
+  weekdayHours: CONSTANTS.DAILY_SCREEN_TIME_GOAL_HOURS,
+  weekendHours: CONSTANTS.DAILY_SCREEN_TIME_GOAL_HOURS,
+};
+
+/**
+ * The signed-in user's goal, readable outside React (background tasks)
+ */
+export const getScreenTimeGoal = (): ScreenTimeGoal => {
+  return useAuthStore.getState().user?.screenTimeGoal || DEFAULT_SCREEN_TIME_GOAL;
+};
+
+/**
+ * Goal hours that apply to a tracking day
+ */
+export const getGoalHours = (
+  date: string = getTodayDateString(),
+  goal: ScreenTimeGoal = getScreenTimeGoal()
+): number => {
+  return isWeekendDate(date) ? goal.weekendHours : goal.weekdayHours;
+};
+
+/**
+ * Whether a number of hours is an acceptable goal
+ */
+export const isValidGoalHours = (hours: number): boolean => {
+  return (
+    Number.isFinite(hours) &&
+    hours >= CONSTANTS.MIN_DAILY_SCREEN_TIME_HOURS &&
+    hours <= CONSTANTS.MAX_DAILY_SCREEN_TIME_HOURS
+  );
+};
@@ -1,3 +1,5 @@
+import { KES, Tokens, asKES, tokensToKES } from './money';
+
 /**
  * Format milliseconds to human-readable time string
  */
@@ -154,12 +156,12 @@ export const debounce = <T extends (...args: any[]) => any>(
  * Calculate MMF returns (mock calculation)
  */
 export const calculateMMFReturns = (
-  principal: number,
+  principal: KES,
   rate: number,
   days: number
-): number => {
+): KES => {
   const dailyRate = rate / 365 / 100;
-  return principal * Math.pow(1 + dailyRate, days);
+  return asKES(principal * Math.pow(1 + dailyRate, days));
 };
 
 /**
@@ -196,25 +198,11 @@ export const getMMFOptions = () => [
   },
 ];
 
-/**
- * Convert tokens to KES (mock conversion)
- */
-export const tokensToKES = (tokens: number): number => {
-  return tokens * 0.1; // 10 tokens = 1 KES
-};
-
-/**
- * Convert KES to tokens
- */
-export const kesTokens = (kes: number): number => {
-  return kes * 10; // 1 KES = 10 tokens
-};
-
 /**
  * Validate investment amount
  */
 export const validateInvestmentAmount = (
-  amount: number,
+  amount: Tokens,
   tokenBalance: number,
   minInvestment: number
 ): string | null => {
@@ -0,0 +1,35 @@
+import { CONSTANTS } from './constants';
+
+declare const unit: unique symbol;
+
+/**
+ * An amount of FOOM tokens. Branded so it can't be mixed up with shillings
+ * without going through a conversion below.
+ */
+export type Tokens = number & { readonly [unit]: 'tokens' };
+
+/**
+ * An amount of Kenyan shillings
+ */
+export type KES = number & { readonly [unit]: 'KES' };
+
+/**
+ * Mark a plain number, e.g. user input, as tokens
+ */
+export const asTokens = (amount: number): Tokens => amount as Tokens;
+
+/**
+ * Mark a plain number, e.g. a fund value, as shillings
+ */
+export const asKES = (amount: number): KES => amount as KES;
+
+/**
+ * Shillings a token amount is worth at the exchange rate
+ */
+export const tokensToKES = (amount: Tokens): KES => asKES(amount / CONSTANTS.TOKENS_PER_KES);
+
+/**
+ * Tokens a shilling amount buys at the exchange rate, rounded down so a
+ * conversion never creates a fraction of a token
+ */
+export const kesToTokens = (amount: KES): Tokens => asTokens(Math.floor(amount * CONSTANTS.TOKENS_PER_KES));